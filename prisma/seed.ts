@@ -151,6 +151,11 @@ const unitTypes: UnitType[] = [
   },
 ];
 
+const unitGroups = [
+  { id: "FLA", name: "Flats" },
+  { id: "CON", name: "Containers" },
+];
+
 function getUniqueRandomUnitTypes(count: number): UnitType[] {
   const selectedUnitTypes: UnitType[] = [];
 
@@ -165,19 +170,71 @@ function getUniqueRandomUnitTypes(count: number): UnitType[] {
   return selectedUnitTypes;
 }
 
+interface Port {
+  code: string;
+  name: string;
+  country: string;
+  timezone: string;
+}
+
+const ports: Port[] = [
+  {
+    code: "DKCPH",
+    name: "Copenhagen",
+    country: "Denmark",
+    timezone: "Europe/Copenhagen",
+  },
+  {
+    code: "NOOSL",
+    name: "Oslo",
+    country: "Norway",
+    timezone: "Europe/Oslo",
+  },
+];
+
 async function main() {
+  const [copenhagen, oslo] = await Promise.all(
+    ports.map((port) => prisma.port.create({ data: port })),
+  );
+  if (!copenhagen || !oslo) {
+    throw new Error("Failed to seed ports");
+  }
+
   const crownSeaways = await prisma.vessel.create({
     data: {
       name: "Crown Seaways",
+      laneMetreCapacity: 1370,
     },
   });
 
   const pearlSeaways = await prisma.vessel.create({
     data: {
       name: "Pearl Seaways",
+      laneMetreCapacity: 1482,
     },
   });
 
+  // Both vessels sail the Copenhagen <-> Oslo crossing overnight
+  for (const [portOfLoading, portOfDischarge] of [
+    [copenhagen, oslo],
+    [oslo, copenhagen],
+  ] as const) {
+    await prisma.route.create({
+      data: {
+        portOfLoadingId: portOfLoading.id,
+        portOfDischargeId: portOfDischarge.id,
+        typicalDurationMinutes: 18 * 60,
+        vessels: {
+          connect: [{ id: crownSeaways.id }, { id: pearlSeaways.id }],
+        },
+      },
+    });
+  }
+
+  for (const unitGroup of unitGroups) {
+    await prisma.unitGroup.create({ data: unitGroup });
+  }
+
   // Seeding units based on the predefined unitTypes array
   for (let i = 0; i < unitTypes.length; i++) {
     const unitType = unitTypes[i % unitTypes.length]; // Loop back to start if i >= unitTypes.length
@@ -188,6 +245,10 @@ async function main() {
           id: unitType.id,
           name: unitType.name,
           defaultLength: unitType.length, // Using 'length' as default length
+          unitGroupId: unitType.unitGroupId,
+          allowDrivers: unitType.allowDrivers,
+          mandatoryField: unitType.mandatoryField,
+          unitNumberAvailable: unitType.unitNumberAvailable,
         },
       }));
   }
@@ -210,11 +271,12 @@ async function main() {
 
     await prisma.voyage.create({
       data: {
-        portOfLoading: "Copenhagen",
-        portOfDischarge: "Oslo",
+        portOfLoadingId: copenhagen.id,
+        portOfDischargeId: oslo.id,
         vesselId: departingFromCopenhagenVessel,
         scheduledDeparture,
         scheduledArrival,
+        status: "OPEN_FOR_BOOKING",
         // Associate random unit types with this voyage
         unitTypes: {
           connect: randomUnitTypes.map((unitType) => ({ id: unitType.id })),
@@ -224,11 +286,12 @@ async function main() {
 
     await prisma.voyage.create({
       data: {
-        portOfLoading: "Oslo",
-        portOfDischarge: "Copenhagen",
+        portOfLoadingId: oslo.id,
+        portOfDischargeId: copenhagen.id,
         vesselId: departingFromOsloVessel,
         scheduledDeparture,
         scheduledArrival,
+        status: "OPEN_FOR_BOOKING",
         // Associate random unit types with this voyage
         unitTypes: {
           connect: randomUnitTypes.map((unitType) => ({ id: unitType.id })),
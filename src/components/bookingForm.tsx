@@ -0,0 +1,198 @@
+"use client";
+import React from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import type { UnitType } from "@prisma/client";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Dropdown } from "./dropdown";
+import { assertResponseOk, ValidationError } from "~/utils";
+import { bookingSchema, type BookingFormData } from "~/schemas/booking";
+import type { BookingWithUnitType } from "~/pages/api/booking/getAll";
+
+interface BookingFormProps {
+  onSuccess: () => void;
+  voyageId: string;
+  unitTypes: UnitType[];
+  booking?: BookingWithUnitType;
+}
+
+/**
+ * BookingForm component for booking a unit on a voyage, or editing an existing booking when a booking is given.
+ * @param {Object} props - Component props.
+ * @param {Function} props.onSuccess - Callback function to execute on successful form submission.
+ * @param {string} props.voyageId - Voyage the unit is booked on.
+ * @param {Array} props.unitTypes - Unit types of the voyage, the only ones that can be booked.
+ * @param {Object} [props.booking] - Booking used to prefill the form. Submitting updates this booking instead of creating a new one.
+ * @returns {JSX.Element}
+ */
+const BookingForm: React.FC<BookingFormProps> = ({
+  onSuccess,
+  voyageId,
+  unitTypes,
+  booking,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    setError,
+    control,
+    formState: { errors },
+  } = useForm<BookingFormData>({
+    resolver: zodResolver(bookingSchema),
+    defaultValues: {
+      voyage: voyageId,
+      unitType: booking?.unitTypeId ?? "",
+      unitNumber: booking?.unitNumber ?? null,
+      length: booking?.length ?? null,
+      customerReference: booking?.customerReference,
+      withDriver: booking?.withDriver ?? false,
+    },
+  });
+
+  const unitTypeOptions = unitTypes.map((unitType) => ({
+    value: unitType.id,
+    label: `${unitType.id} · ${unitType.name}`,
+  }));
+
+  const selectedUnitTypeId = useWatch({ control, name: "unitType" });
+  const selectedUnitType = unitTypes.find(
+    (unitType) => unitType.id === selectedUnitTypeId,
+  );
+  const unitNumberMandatory = selectedUnitType?.mandatoryField === "UnitNumber";
+  const unitNumberAvailable =
+    unitNumberMandatory || !!selectedUnitType?.unitNumberAvailable;
+
+  // Clearing the fields the newly selected unit type does not support
+  const handleUnitTypeChange = (unitTypeId: string) => {
+    setValue("unitType", unitTypeId);
+    const unitType = unitTypes.find((unitType) => unitType.id === unitTypeId);
+    if (
+      unitType &&
+      !unitType.unitNumberAvailable &&
+      unitType.mandatoryField !== "UnitNumber"
+    ) {
+      setValue("unitNumber", null);
+    }
+    if (unitType && !unitType.allowDrivers) {
+      setValue("withDriver", false);
+    }
+  };
+
+  // Creating a new booking, or updating the given one
+  const saveBookingMutation = useMutation({
+    mutationFn: async (data: BookingFormData) => {
+      const response = booking
+        ? await fetch(`/api/booking/update?id=${booking.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          })
+        : await fetch("/api/booking/create", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          });
+
+      await assertResponseOk(
+        response,
+        `Failed to ${booking ? "update" : "create"} booking`,
+      );
+
+      return response.json();
+    },
+    onSuccess: () => {
+      onSuccess();
+    },
+    onError: (error) => {
+      console.error(
+        `Error ${booking ? "updating" : "creating"} booking:`,
+        error,
+      );
+
+      if (!(error instanceof ValidationError)) {
+        setError("root.serverError", { message: error.message });
+        return;
+      }
+
+      // Show the errors of the server next to the fields they belong to
+      const formErrors = [...error.formErrors];
+      for (const [field, messages] of Object.entries(error.fieldErrors)) {
+        if (!messages?.length) continue;
+        if (field in bookingSchema.shape && field !== "voyage") {
+          setError(field as keyof BookingFormData, {
+            type: "server",
+            message: messages[0],
+          });
+        } else {
+          formErrors.push(...messages);
+        }
+      }
+      if (formErrors.length > 0) {
+        setError("root.serverError", { message: formErrors.join(" ") });
+      }
+    },
+  });
+
+  const onSubmit = (data: BookingFormData) => {
+    saveBookingMutation.mutate(data);
+  };
+
+  return (
+    <form
+      onSubmit={(event) => void handleSubmit(onSubmit)(event)}
+      className="space-y-5"
+    >
+      <div>
+        <Dropdown
+          label="Select Unit Type"
+          items={unitTypeOptions}
+          selectedItem={selectedUnitTypeId}
+          setSelectedItem={handleUnitTypeChange}
+        />
+        {errors.unitType && <p>{errors.unitType.message}</p>}
+      </div>
+      {unitNumberAvailable && (
+        <div>
+          <label>Unit Number{unitNumberMandatory ? "" : " (optional)"}</label>
+          <Input type="text" {...register("unitNumber")} />
+          {errors.unitNumber && <p>{errors.unitNumber.message}</p>}
+        </div>
+      )}
+      <div>
+        <label>Length (optional)</label>
+        <Input
+          type="number"
+          step="any"
+          min={0}
+          placeholder={selectedUnitType?.defaultLength.toString()}
+          {...register("length", {
+            setValueAs: (value: string | number | null) =>
+              value === "" || value === null ? null : Number(value),
+          })}
+        />
+        {errors.length && <p>{errors.length.message}</p>}
+      </div>
+      <div>
+        <label>Customer Reference</label>
+        <Input type="text" {...register("customerReference")} />
+        {errors.customerReference && <p>{errors.customerReference.message}</p>}
+      </div>
+      {selectedUnitType?.allowDrivers && (
+        <div>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" {...register("withDriver")} />
+            Travels with driver
+          </label>
+          {errors.withDriver && <p>{errors.withDriver.message}</p>}
+        </div>
+      )}
+      {errors.root?.serverError && <p>{errors.root.serverError.message}</p>}
+      <Button type="submit">{booking ? "Save" : "Book"}</Button>
+    </form>
+  );
+};
+
+export default BookingForm;
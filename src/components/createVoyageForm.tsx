@@ -1,52 +1,92 @@
 "use client";
 import React, { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { addMinutes, format, isValid } from "date-fns";
 import { Button } from "~/components/ui/button";
-import { Input } from "~/components/ui/input";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
-import { fetchData } from "~/utils";
+import {
+  assertResponseOk,
+  FetchError,
+  fetchData,
+  ValidationError,
+} from "~/utils";
+import { DateTimePickerField } from "./dateTimePicker";
 import { MultiSelect } from "./multiSelect";
 import { Dropdown } from "./dropdown";
+import type { VoyageWithRelations } from "~/pages/api/voyage/getAll";
+import type { ReturnType as RoutesType } from "~/pages/api/route/getAll";
+import type { VesselsType as UnitTypesType } from "~/pages/api/unitType/getAll";
+import type { ReturnType as AvailabilityType } from "~/pages/api/vessel/availability";
 
-// Define schema for form validation
-const voyageSchema = z
-  .object({
-    departure: z.string().min(1, "Departure is required"),
-    arrival: z.string().min(1, "Arrival is required"),
-    portOfLoading: z.string().min(1, "Port of loading is required"),
-    portOfDischarge: z.string().min(1, "Port of discharge is required"),
-    vessel: z.string().min(1, "Vessel is required"),
-    unitTypes: z
-      .array(z.string())
-      .nonempty("At least one unit type is required"),
-  })
-  .refine((data) => new Date(data.arrival) > new Date(data.departure), {
-    message: "Arrival date must be after departure date",
-    path: ["arrival"],
-  });
+import {
+  ARRIVAL_AFTER_DEPARTURE_MESSAGE,
+  isArrivalAfterDeparture,
+  voyageFieldsSchema,
+  type VoyageFormData,
+} from "~/schemas/voyage";
+import { formatInTimeZone, getTimeZoneName, zonedTimeToUtc } from "~/timezone";
 
-type VoyageFormData = z.infer<typeof voyageSchema>;
+// Format accepted by the value of an `<input type="datetime-local">`
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+/**
+ * Reads the value of a datetime-local input as the local time of a port, or of the browser while no port is chosen.
+ */
+function toInstant(value: string, timeZone: string | undefined) {
+  return timeZone ? zonedTimeToUtc(value, timeZone) : new Date(value);
+}
 
 interface CreateVoyageFormProps {
   onSuccess: () => void;
+  voyage?: VoyageWithRelations;
+  initialDeparture?: Date;
 }
 
 /**
- * CreateVoyageForm component for creating a new voyage.
+ * CreateVoyageForm component for creating a new voyage, or editing an existing one when a voyage is given.
  * @param {Object} props - Component props.
  * @param {Function} props.onSuccess - Callback function to execute on successful form submission.
+ * @param {Object} [props.voyage] - Voyage used to prefill the form. Submitting updates this voyage instead of creating a new one.
+ * @param {Date} [props.initialDeparture] - Departure to prefill a new voyage with. It is shown in the time of the viewer
+ * until a port of loading is chosen, and in the local time of that port from then on.
  * @returns {JSX.Element}
  */
-const CreateVoyageForm: React.FC<CreateVoyageFormProps> = ({ onSuccess }) => {
+const CreateVoyageForm: React.FC<CreateVoyageFormProps> = ({
+  onSuccess,
+  voyage,
+  initialDeparture,
+}) => {
   const {
-    register,
     handleSubmit,
     setValue,
+    getValues,
+    getFieldState,
+    setError,
+    control,
     formState: { errors },
   } = useForm<VoyageFormData>({
-    resolver: zodResolver(voyageSchema),
+    // Departure and arrival can be in different time zones, so their order is only checked once they are converted
+    resolver: zodResolver(voyageFieldsSchema),
+    defaultValues: voyage
+      ? {
+          departure: formatInTimeZone(
+            new Date(voyage.scheduledDeparture),
+            voyage.portOfLoading.timezone,
+            DATETIME_LOCAL_FORMAT,
+          ),
+          arrival: formatInTimeZone(
+            new Date(voyage.scheduledArrival),
+            voyage.portOfDischarge.timezone,
+            DATETIME_LOCAL_FORMAT,
+          ),
+          portOfLoading: voyage.portOfLoadingId,
+          portOfDischarge: voyage.portOfDischargeId,
+        }
+      : {
+          departure:
+            initialDeparture && format(initialDeparture, DATETIME_LOCAL_FORMAT),
+        },
   });
 
   // Fetching vessels
@@ -55,8 +95,8 @@ const CreateVoyageForm: React.FC<CreateVoyageFormProps> = ({ onSuccess }) => {
     isLoading: vesselsLoading,
     isError: vesselsError,
   } = useQuery<VesselType[]>({
-    queryKey: ["vessels"],
-    queryFn: () => fetchData("vessel/getAll"),
+    queryKey: ["vessels", "dropdown"],
+    queryFn: () => fetchData("vessel/getAll?projection=dropdown"),
   });
 
   // Fetching unit types
@@ -64,47 +104,167 @@ const CreateVoyageForm: React.FC<CreateVoyageFormProps> = ({ onSuccess }) => {
     data: unitTypesData,
     isLoading: unitTypesLoading,
     isError: unitTypesError,
-  } = useQuery<UnitType[]>({
+  } = useQuery<UnitTypesType>({
     queryKey: ["unitTypes"],
     queryFn: () => fetchData("unitType/getAll"),
   });
 
+  // Fetching routes, which define the allowed port pairs
+  const { data: routes, isError: routesError } = useQuery<RoutesType>({
+    queryKey: ["routes"],
+    queryFn: () => fetchData("route/getAll"),
+  });
+
   // Error handling for data fetching
   useEffect(() => {
     if (vesselsError) console.error("Error fetching vessels");
     if (unitTypesError) console.error("Error fetching unit types");
-  }, [vesselsError, unitTypesError]);
+    if (routesError) console.error("Error fetching routes");
+  }, [vesselsError, unitTypesError, routesError]);
 
   type VesselType = {
     value: string;
     label: string;
   };
 
-  type UnitType = {
-    id: string;
-    name: string;
-  };
-
-  // Transform unitTypes data to expected structure
+  // Transform unitTypes data to expected structure, grouped by unit group
   const unitTypes =
     unitTypesData?.map((unit) => ({
       value: unit.id,
       label: unit.name,
-    })) || [];
-
-  // Transform vessel data to expected structure
-  const vesselOptions =
-    vessels?.map((vessel) => ({
-      value: vessel.value,
-      label: vessel.label,
-    })) || [];
+      group: `${unit.unitGroup.id} · ${unit.unitGroup.name}`,
+    })) ?? [];
 
-  const [selectedVessel, setSelectedVessel] = useState("");
+  const [selectedVessel, setSelectedVessel] = useState(voyage?.vesselId ?? "");
   const [selectedUnitTypes, setSelectedUnitTypes] = useState<
     { value: string; label: string }[]
-  >([]);
-  const [portOfLoading, setPortOfLoading] = useState("");
-  const [portOfDischarge, setPortOfDischarge] = useState("");
+  >(
+    voyage?.unitTypes.map((unitType) => ({
+      value: unitType.id,
+      label: unitType.name,
+    })) ?? [],
+  );
+  const [portOfLoading, setPortOfLoading] = useState(
+    voyage?.portOfLoadingId ?? "",
+  );
+  const [portOfDischarge, setPortOfDischarge] = useState(
+    voyage?.portOfDischargeId ?? "",
+  );
+
+  const findRoute = (loadingPortId: string, dischargePortId: string) =>
+    routes?.find(
+      (route) =>
+        route.portOfLoadingId === loadingPortId &&
+        route.portOfDischargeId === dischargePortId,
+    );
+  const selectedRoute = findRoute(portOfLoading, portOfDischarge);
+
+  // Departure is entered in the time zone of the port of loading, arrival in the one of the port of discharge
+  const loadingPort = routes?.find(
+    (route) => route.portOfLoadingId === portOfLoading,
+  )?.portOfLoading;
+  const dischargePort = routes?.find(
+    (route) => route.portOfDischargeId === portOfDischarge,
+  )?.portOfDischarge;
+
+  // Fetching the vessels that are busy while this voyage would be at sea
+  const [departure, arrival] = useWatch({
+    control,
+    name: ["departure", "arrival"],
+  });
+  const departureDate = departure
+    ? toInstant(departure, loadingPort?.timezone)
+    : undefined;
+  const arrivalDate = arrival
+    ? toInstant(arrival, dischargePort?.timezone)
+    : undefined;
+  // Arrival cannot be picked before the departure, shown in the time zone the arrival is entered in
+  const earliestArrival =
+    departureDate && isValid(departureDate)
+      ? dischargePort
+        ? formatInTimeZone(
+            departureDate,
+            dischargePort.timezone,
+            DATETIME_LOCAL_FORMAT,
+          )
+        : format(departureDate, DATETIME_LOCAL_FORMAT)
+      : undefined;
+  const hasSchedule =
+    !!departureDate &&
+    !!arrivalDate &&
+    !Number.isNaN(departureDate.getTime()) &&
+    arrivalDate > departureDate;
+  const availabilityParams = new URLSearchParams({
+    departure: hasSchedule ? departureDate.toISOString() : "",
+    arrival: hasSchedule ? arrivalDate.toISOString() : "",
+    ...(voyage && { excludeVoyage: voyage.id }),
+  });
+  const { data: availability } = useQuery<AvailabilityType>({
+    queryKey: ["vesselAvailability", availabilityParams.toString()],
+    queryFn: () =>
+      fetchData(`vessel/availability?${availabilityParams.toString()}`),
+    enabled: hasSchedule,
+  });
+
+  // Only ports with at least one outgoing route can be loaded at
+  const portOfLoadingOptions = [
+    ...new Map(
+      routes?.map((route) => [
+        route.portOfLoadingId,
+        { value: route.portOfLoadingId, label: route.portOfLoading.name },
+      ]),
+    ).values(),
+  ];
+
+  const portOfDischargeOptions =
+    routes
+      ?.filter((route) => route.portOfLoadingId === portOfLoading)
+      .map((route) => ({
+        value: route.portOfDischargeId,
+        label: route.portOfDischarge.name,
+      })) ?? [];
+
+  // Transform vessel data to expected structure, keeping only the vessels allowed on the route and disabling busy ones
+  const vesselOptions =
+    vessels
+      ?.filter((vessel) =>
+        selectedRoute?.vessels.some(
+          (routeVessel) => routeVessel.id === vessel.value,
+        ),
+      )
+      .map((vessel) => {
+        const isBusy = !!availability?.busyVesselIds.includes(vessel.value);
+        return {
+          value: vessel.value,
+          label: isBusy ? `${vessel.label} (busy)` : vessel.label,
+          disabled: isBusy,
+        };
+      }) ?? [];
+
+  // Prefill the arrival from the departure and the typical crossing duration of the route
+  const prefillArrival = (
+    departure: string,
+    route: RoutesType[number] | undefined,
+  ) => {
+    if (!departure || !route) return;
+
+    setValue(
+      "arrival",
+      formatInTimeZone(
+        addMinutes(
+          zonedTimeToUtc(departure, route.portOfLoading.timezone),
+          route.typicalDurationMinutes,
+        ),
+        route.portOfDischarge.timezone,
+        DATETIME_LOCAL_FORMAT,
+      ),
+    );
+  };
+
+  // Set selected port of discharge value in form data
+  useEffect(() => {
+    setValue("portOfDischarge", portOfDischarge);
+  }, [portOfDischarge, setValue]);
 
   // Set selected vessel value in form data
   useEffect(() => {
@@ -121,20 +281,25 @@ const CreateVoyageForm: React.FC<CreateVoyageFormProps> = ({ onSuccess }) => {
     }
   }, [selectedUnitTypes, setValue]);
 
-  // Creating a new voyage
-  const createVoyageMutation = useMutation({
+  // Creating a new voyage, or updating the given one
+  const saveVoyageMutation = useMutation({
     mutationFn: async (data: VoyageFormData) => {
-      const response = await fetch("/api/voyage/create", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
-      });
+      const response = voyage
+        ? await fetch(`/api/voyage/update?id=${voyage.id}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          })
+        : await fetch("/api/voyage/create", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          });
 
-      if (!response.ok) {
-        throw new Error(
-          `Failed to create voyage: ${response.status} ${response.statusText}`,
-        );
-      }
+      await assertResponseOk(
+        response,
+        `Failed to ${voyage ? "update" : "create"} voyage`,
+      );
 
       return response.json();
     },
@@ -142,14 +307,55 @@ const CreateVoyageForm: React.FC<CreateVoyageFormProps> = ({ onSuccess }) => {
       onSuccess(); // Call the onSuccess callback
     },
     onError: (error) => {
-      console.error("Error creating voyage:", error);
+      console.error(`Error ${voyage ? "updating" : "creating"} voyage:`, error);
+
+      // The vessel is already booked for an overlapping voyage
+      if (error instanceof FetchError && error.status === 409) {
+        setError("vessel", { type: "server", message: error.message });
+        return;
+      }
+
+      if (!(error instanceof ValidationError)) {
+        setError("root.serverError", { message: error.message });
+        return;
+      }
+
+      // Show the errors of the server next to the fields they belong to
+      const formErrors = [...error.formErrors];
+      for (const [field, messages] of Object.entries(error.fieldErrors)) {
+        if (!messages?.length) continue;
+        if (field in voyageFieldsSchema.shape) {
+          setError(field as keyof VoyageFormData, {
+            type: "server",
+            message: messages[0],
+          });
+        } else {
+          formErrors.push(...messages);
+        }
+      }
+      if (formErrors.length > 0) {
+        setError("root.serverError", { message: formErrors.join(" ") });
+      }
     },
   });
 
   // Handle form submission
   const onSubmit = (data: VoyageFormData) => {
-    data.departure = new Date(data.departure).toISOString();
-    data.arrival = new Date(data.arrival).toISOString();
+    data.departure = toInstant(
+      data.departure,
+      loadingPort?.timezone,
+    ).toISOString();
+    data.arrival = toInstant(
+      data.arrival,
+      dischargePort?.timezone,
+    ).toISOString();
+    if (!isArrivalAfterDeparture(data.departure, data.arrival)) {
+      setError("arrival", {
+        type: "validate",
+        message: ARRIVAL_AFTER_DEPARTURE_MESSAGE,
+      });
+      return;
+    }
 
     // Ensure these values are set correctly in the form data
     data.vessel = selectedVessel;
@@ -158,58 +364,100 @@ const CreateVoyageForm: React.FC<CreateVoyageFormProps> = ({ onSuccess }) => {
       ...string[],
     ];
 
-    createVoyageMutation.mutate(data);
+    saveVoyageMutation.mutate(data);
   };
 
-  // Handle port of loading change and set port of discharge accordingly
+  // Handle port of loading change and clear a port of discharge that has no route from it
   const handlePortOfLoadingChange = (selectedPort: string) => {
     setPortOfLoading(selectedPort);
     setValue("portOfLoading", selectedPort);
 
-    if (selectedPort === "Copenhagen") {
-      setPortOfDischarge("Oslo");
-      setValue("portOfDischarge", "Oslo");
-    } else if (selectedPort === "Oslo") {
-      setPortOfDischarge("Copenhagen");
-      setValue("portOfDischarge", "Copenhagen");
-    } else {
+    // Keep the prefilled departure at the same instant, now entered in the local time of the port
+    const timeZone = routes?.find(
+      (route) => route.portOfLoadingId === selectedPort,
+    )?.portOfLoading.timezone;
+    if (initialDeparture && timeZone && !getFieldState("departure").isDirty) {
+      setValue(
+        "departure",
+        formatInTimeZone(initialDeparture, timeZone, DATETIME_LOCAL_FORMAT),
+      );
+    }
+
+    if (!findRoute(selectedPort, portOfDischarge)) {
       setPortOfDischarge("");
-      setValue("portOfDischarge", "");
     }
   };
 
+  // Handle port of discharge change and clear a vessel that is not allowed on the new route
+  const handlePortOfDischargeChange = (selectedPort: string) => {
+    setPortOfDischarge(selectedPort);
+
+    const route = findRoute(portOfLoading, selectedPort);
+    if (!route?.vessels.some((vessel) => vessel.id === selectedVessel)) {
+      setSelectedVessel("");
+    }
+    prefillArrival(getValues("departure"), route);
+  };
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
       <div>
         <label>Departure Date</label>
-        <Input type="datetime-local" {...register("departure")} />
+        {loadingPort && (
+          <p className="text-sm text-muted-foreground">
+            Local time in {loadingPort.name} (
+            {getTimeZoneName(
+              loadingPort.timezone,
+              departureDate && isValid(departureDate)
+                ? departureDate
+                : new Date(),
+            )}
+            )
+          </p>
+        )}
+        <DateTimePickerField
+          control={control}
+          name="departure"
+          aria-label="Departure date and time"
+          onValueChange={(value) => prefillArrival(value, selectedRoute)}
+        />
         {errors.departure && <p>{errors.departure.message}</p>}
       </div>
       <div>
         <label>Arrival Date</label>
-        <Input type="datetime-local" {...register("arrival")} />
+        {dischargePort && (
+          <p className="text-sm text-muted-foreground">
+            Local time in {dischargePort.name} (
+            {getTimeZoneName(
+              dischargePort.timezone,
+              arrivalDate && isValid(arrivalDate) ? arrivalDate : new Date(),
+            )}
+            )
+          </p>
+        )}
+        <DateTimePickerField
+          control={control}
+          name="arrival"
+          aria-label="Arrival date and time"
+          min={earliestArrival}
+        />
         {errors.arrival && <p>{errors.arrival.message}</p>}
       </div>
       <div>
         <Dropdown
           label="Select Port of Loading"
-          items={[
-            { value: "Copenhagen", label: "Copenhagen" },
-            { value: "Oslo", label: "Oslo" },
-          ]}
+          items={portOfLoadingOptions}
           selectedItem={portOfLoading}
           setSelectedItem={handlePortOfLoadingChange}
         />
         {errors.portOfLoading && <p>{errors.portOfLoading.message}</p>}
       </div>
       <div>
-        <label>Port of Discharge</label>
-        <Input
-          className="shadow-none"
-          type="text"
-          value={portOfDischarge}
-          readOnly
-          {...register("portOfDischarge")}
+        <Dropdown
+          label="Select Port of Discharge"
+          items={portOfDischargeOptions}
+          selectedItem={portOfDischarge}
+          setSelectedItem={handlePortOfDischargeChange}
         />
         {errors.portOfDischarge && <p>{errors.portOfDischarge.message}</p>}
       </div>
@@ -231,7 +479,8 @@ const CreateVoyageForm: React.FC<CreateVoyageFormProps> = ({ onSuccess }) => {
         />
         {errors.unitTypes && <p>{errors.unitTypes.message}</p>}
       </div>
-      <Button type="submit">Create</Button>
+      {errors.root?.serverError && <p>{errors.root.serverError.message}</p>}
+      <Button type="submit">{voyage ? "Save" : "Create"}</Button>
     </form>
   );
 };
@@ -0,0 +1,391 @@
+import {
+  addDays,
+  addMonths,
+  addYears,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isValid,
+  parse,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { type KeyboardEvent, useRef, useState } from "react";
+import {
+  type Control,
+  Controller,
+  type FieldPath,
+  type FieldValues,
+} from "react-hook-form";
+import { Button } from "~/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import { TABLE_DATE_FORMAT } from "~/constants";
+import { cn } from "~/utils";
+
+export type DateTimePickerMode = "datetime" | "date" | "time";
+
+// Formats of the value, the same as the value of the matching native input, e.g. `<input type="datetime-local">`
+const VALUE_FORMATS: Record<DateTimePickerMode, string> = {
+  datetime: "yyyy-MM-dd'T'HH:mm",
+  date: "yyyy-MM-dd",
+  time: "HH:mm",
+};
+
+const DISPLAY_FORMATS: Record<DateTimePickerMode, string> = {
+  datetime: TABLE_DATE_FORMAT,
+  date: "dd/MM/yyyy",
+  time: "HH:mm",
+};
+
+const DAY_FORMAT = "yyyy-MM-dd";
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+function parseValue(value: string | undefined, mode: DateTimePickerMode) {
+  if (!value) return null;
+  const date = parse(value, VALUE_FORMATS[mode], new Date());
+  return isValid(date) ? date : null;
+}
+
+interface DateTimePickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  mode?: DateTimePickerMode;
+  // Earliest and latest value that can be picked, in the same format as the value
+  min?: string;
+  max?: string;
+  minuteStep?: number;
+  placeholder?: string;
+  disabled?: boolean;
+  id?: string;
+  "aria-label"?: string;
+}
+
+/**
+ * DateTimePicker component that picks a date from a calendar and a time from hour and minute lists, in one popover.
+ * The value is a string in the format of the matching native input, so it can replace `<input type="datetime-local">`,
+ * `<input type="date">` or `<input type="time">`. In the calendar, the arrow keys move by day and week, Page Up and
+ * Page Down by month (with Shift by year), and Home and End to the start and end of the week.
+ * @param {DateTimePickerProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function DateTimePicker({
+  value,
+  onChange,
+  onBlur,
+  mode = "datetime",
+  min,
+  max,
+  minuteStep = 5,
+  placeholder = "Pick a date",
+  disabled,
+  id,
+  "aria-label": ariaLabel,
+}: DateTimePickerProps) {
+  const selected = parseValue(value, mode);
+  const [isOpen, setOpen] = useState(false);
+  const [focusedDay, setFocusedDay] = useState(selected ?? new Date());
+  const [visibleMonth, setVisibleMonth] = useState(
+    startOfMonth(selected ?? new Date()),
+  );
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const hasDate = mode !== "time";
+  const hasTime = mode !== "date";
+  const minDay = hasDate ? min?.slice(0, DAY_FORMAT.length) : undefined;
+  const maxDay = hasDate ? max?.slice(0, DAY_FORMAT.length) : undefined;
+
+  const isDayDisabled = (day: Date) => {
+    const key = format(day, DAY_FORMAT);
+    return (!!minDay && key < minDay) || (!!maxDay && key > maxDay);
+  };
+
+  // Values in the same format compare as strings, so a value outside the range is moved to its nearest end
+  const commit = (date: Date) => {
+    let nextValue = format(date, VALUE_FORMATS[mode]);
+    if (min && nextValue < min) nextValue = min;
+    if (max && nextValue > max) nextValue = max;
+    onChange(nextValue);
+  };
+
+  const focusDay = (day: Date) => {
+    setFocusedDay(day);
+    if (!isSameMonth(day, visibleMonth)) setVisibleMonth(startOfMonth(day));
+    // The day may only be rendered after the month changes
+    requestAnimationFrame(() =>
+      gridRef.current
+        ?.querySelector<HTMLButtonElement>(
+          `[data-day="${format(day, DAY_FORMAT)}"]`,
+        )
+        ?.focus(),
+    );
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setOpen(open);
+    if (open) {
+      const day = selected ?? parseValue(min, mode) ?? new Date();
+      setFocusedDay(day);
+      setVisibleMonth(startOfMonth(day));
+    } else {
+      onBlur?.();
+    }
+  };
+
+  const handleSelectDay = (day: Date) => {
+    const time = selected ?? parseValue(min, mode);
+    commit(
+      new Date(
+        day.getFullYear(),
+        day.getMonth(),
+        day.getDate(),
+        hasTime ? (time?.getHours() ?? 0) : 0,
+        hasTime ? (time?.getMinutes() ?? 0) : 0,
+      ),
+    );
+    setFocusedDay(day);
+    if (!hasTime) setOpen(false);
+  };
+
+  const handleTimeChange = (hours: number, minutes: number) => {
+    const day = selected ?? focusedDay;
+    commit(
+      new Date(
+        day.getFullYear(),
+        day.getMonth(),
+        day.getDate(),
+        hours,
+        minutes,
+      ),
+    );
+  };
+
+  const handleGridKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const moves: Record<string, () => Date> = {
+      ArrowLeft: () => addDays(focusedDay, -1),
+      ArrowRight: () => addDays(focusedDay, 1),
+      ArrowUp: () => addDays(focusedDay, -7),
+      ArrowDown: () => addDays(focusedDay, 7),
+      PageUp: () =>
+        event.shiftKey ? addYears(focusedDay, -1) : addMonths(focusedDay, -1),
+      PageDown: () =>
+        event.shiftKey ? addYears(focusedDay, 1) : addMonths(focusedDay, 1),
+      Home: () => startOfWeek(focusedDay, WEEK_OPTIONS),
+      End: () => endOfWeek(focusedDay, WEEK_OPTIONS),
+    };
+    const move = moves[event.key];
+    if (!move) return;
+    event.preventDefault();
+    focusDay(move());
+  };
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(visibleMonth, WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(visibleMonth), WEEK_OPTIONS),
+  });
+
+  const selectedHours = selected?.getHours() ?? 0;
+  const selectedMinutes = selected?.getMinutes() ?? 0;
+  const hourOptions = Array.from({ length: 24 }, (_, hour) => hour);
+  // A minute that is not on the step, e.g. from an imported voyage, stays selectable
+  const minuteOptions = [
+    ...new Set([
+      ...Array.from(
+        { length: Math.ceil(60 / minuteStep) },
+        (_, index) => index * minuteStep,
+      ),
+      selectedMinutes,
+    ]),
+  ].sort((first, second) => first - second);
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          aria-label={ariaLabel}
+          className={cn(
+            "w-full justify-start font-normal",
+            !selected && "text-muted-foreground",
+          )}
+        >
+          {selected ? format(selected, DISPLAY_FORMATS[mode]) : placeholder}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-auto space-y-4"
+        onOpenAutoFocus={(event) => {
+          if (!hasDate) return;
+          event.preventDefault();
+          focusDay(focusedDay);
+        }}
+      >
+        {hasDate && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Previous month"
+                onClick={() => setVisibleMonth(addMonths(visibleMonth, -1))}
+              >
+                ‹
+              </Button>
+              <span className="text-sm font-medium" aria-live="polite">
+                {format(visibleMonth, "MMMM yyyy")}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Next month"
+                onClick={() => setVisibleMonth(addMonths(visibleMonth, 1))}
+              >
+                ›
+              </Button>
+            </div>
+            <div
+              ref={gridRef}
+              role="grid"
+              aria-label={format(visibleMonth, "MMMM yyyy")}
+              className="grid grid-cols-7 gap-1"
+              onKeyDown={handleGridKeyDown}
+            >
+              {days.slice(0, 7).map((day) => (
+                <span
+                  key={day.toISOString()}
+                  role="columnheader"
+                  aria-label={format(day, "EEEE")}
+                  className="text-center text-xs text-muted-foreground"
+                >
+                  {format(day, "EEEEEE")}
+                </span>
+              ))}
+              {days.map((day) => {
+                const isSelected = !!selected && isSameDay(day, selected);
+                return (
+                  <Button
+                    key={day.toISOString()}
+                    type="button"
+                    role="gridcell"
+                    variant={isSelected ? "default" : "ghost"}
+                    size="icon"
+                    data-day={format(day, DAY_FORMAT)}
+                    tabIndex={isSameDay(day, focusedDay) ? 0 : -1}
+                    aria-selected={isSelected}
+                    aria-label={format(day, "EEEE d MMMM yyyy")}
+                    disabled={isDayDisabled(day)}
+                    className={cn(
+                      !isSameMonth(day, visibleMonth) &&
+                        "text-muted-foreground opacity-50",
+                    )}
+                    onClick={() => handleSelectDay(day)}
+                  >
+                    {format(day, "d")}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+        {hasTime && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Time</span>
+            <select
+              aria-label="Hours"
+              className="rounded-md border border-input bg-transparent px-2 py-1"
+              value={selectedHours}
+              onChange={(event) =>
+                handleTimeChange(Number(event.target.value), selectedMinutes)
+              }
+            >
+              {hourOptions.map((hour) => (
+                <option key={hour} value={hour}>
+                  {String(hour).padStart(2, "0")}
+                </option>
+              ))}
+            </select>
+            :
+            <select
+              aria-label="Minutes"
+              className="rounded-md border border-input bg-transparent px-2 py-1"
+              value={selectedMinutes}
+              onChange={(event) =>
+                handleTimeChange(selectedHours, Number(event.target.value))
+              }
+            >
+              {minuteOptions.map((minute) => (
+                <option key={minute} value={minute}>
+                  {String(minute).padStart(2, "0")}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              size="sm"
+              className="ml-auto"
+              onClick={() => handleOpenChange(false)}
+            >
+              Done
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface DateTimePickerFieldProps<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+> extends Omit<DateTimePickerProps, "value" | "onChange" | "onBlur"> {
+  control: Control<TFieldValues>;
+  name: TName;
+  // Called after the form value has changed, e.g. to fill in another field
+  onValueChange?: (value: string) => void;
+}
+
+/**
+ * DateTimePickerField component that binds a DateTimePicker to a react-hook-form field.
+ * @param {DateTimePickerFieldProps} props - Component props, and the props of the DateTimePicker.
+ * @returns {JSX.Element}
+ */
+export function DateTimePickerField<
+  TFieldValues extends FieldValues,
+  TName extends FieldPath<TFieldValues>,
+>({
+  control,
+  name,
+  onValueChange,
+  ...pickerProps
+}: DateTimePickerFieldProps<TFieldValues, TName>) {
+  return (
+    <Controller
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <DateTimePicker
+          {...pickerProps}
+          value={(field.value as string | undefined) ?? ""}
+          onChange={(value) => {
+            field.onChange(value);
+            onValueChange?.(value);
+          }}
+          onBlur={field.onBlur}
+        />
+      )}
+    />
+  );
+}
@@ -12,7 +12,7 @@ import { useEffect } from "react";
 
 interface DropdownProps {
   label: string;
-  items: { value: string; label: string }[];
+  items: { value: string; label: string; disabled?: boolean }[];
   selectedItem: string;
   setSelectedItem: (item: string) => void;
 }
@@ -29,8 +29,9 @@ export function Dropdown({
   setSelectedItem,
 }: DropdownProps) {
   useEffect(() => {
-    if (!selectedItem && items.length > 0) {
-      setSelectedItem(items[0]?.value || "");
+    const firstEnabledItem = items.find((item) => !item.disabled);
+    if (!selectedItem && firstEnabledItem) {
+      setSelectedItem(firstEnabledItem.value);
     }
   }, [items, selectedItem, setSelectedItem]);
 
@@ -51,6 +52,7 @@ export function Dropdown({
           {items.map((item) => (
             <DropdownMenuItem
               key={item.value}
+              disabled={item.disabled}
               onSelect={() => setSelectedItem(item.value)}
             >
               {item.label}
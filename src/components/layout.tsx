@@ -1,4 +1,5 @@
 import Image from "next/image";
+import Link from "next/link";
 import type { ReactNode } from "react";
 import { ThemeProvider as NextThemesProvider } from "next-themes";
 import { Toaster } from "./ui/toaster";
@@ -7,12 +8,34 @@ type Props = {
   children: ReactNode;
 };
 
+const navigation = [
+  { href: "/", label: "Voyages" },
+  { href: "/vessels", label: "Vessels" },
+  { href: "/routes", label: "Routes" },
+  { href: "/timeline", label: "Timeline" },
+  { href: "/schedule", label: "Schedule" },
+  { href: "/unit-types", label: "Unit Types" },
+];
+
 export default function Layout({ children }: Props) {
   return (
     <>
       <nav className="flex w-full items-center justify-center border-b border-white border-opacity-50 bg-gray-800 py-4">
-        <div className="flex w-full max-w-screen-xl items-center px-4">
-          <Image src="/logo.svg" alt="DFDS logo" width={56} height={18} />
+        <div className="flex w-full max-w-screen-xl items-center gap-8 px-4">
+          <Link href="/">
+            <Image src="/logo.svg" alt="DFDS logo" width={56} height={18} />
+          </Link>
+          <div className="flex gap-4 text-sm text-white">
+            {navigation.map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className="hover:underline"
+              >
+                {item.label}
+              </Link>
+            ))}
+          </div>
         </div>
       </nav>
       <main className="mx-auto w-full max-w-screen-xl items-center justify-center px-2">
@@ -14,7 +14,7 @@ import {
   SetStateAction,
 } from "react";
 
-type UnitType = { value: string; label: string };
+type UnitType = { value: string; label: string; group?: string };
 
 interface MultiSelectProps {
   unitTypes: UnitType[];
@@ -91,6 +91,15 @@ export function MultiSelect({
       unitType.label.toLowerCase().includes(inputValue.toLowerCase()),
   );
 
+  // Group the remaining unit types by their group, keeping the order of the groups
+  const groupedUnitTypes = new Map<string | undefined, UnitType[]>();
+  for (const unitType of filteredUnitTypes) {
+    groupedUnitTypes.set(unitType.group, [
+      ...(groupedUnitTypes.get(unitType.group) ?? []),
+      unitType,
+    ]);
+  }
+
   return (
     <Command
       onKeyDown={handleKeyDown}
@@ -140,21 +149,23 @@ export function MultiSelect({
         <div className="relative mt-2">
           <div className="absolute top-0 z-10 w-full rounded-md border border-gray-200 bg-white shadow-lg">
             <CommandList>
-              <CommandGroup>
-                {filteredUnitTypes.map((unitType) => (
-                  <CommandItem
-                    key={unitType.value}
-                    onMouseDown={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      handleSelect(unitType);
-                    }}
-                    className="cursor-pointer"
-                  >
-                    {unitType.label}
-                  </CommandItem>
-                ))}
-              </CommandGroup>
+              {[...groupedUnitTypes].map(([group, groupUnitTypes]) => (
+                <CommandGroup key={group ?? ""} heading={group}>
+                  {groupUnitTypes.map((unitType) => (
+                    <CommandItem
+                      key={unitType.value}
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleSelect(unitType);
+                      }}
+                      className="cursor-pointer"
+                    >
+                      {unitType.label}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              ))}
             </CommandList>
           </div>
         </div>
@@ -0,0 +1,74 @@
+import { format } from "date-fns";
+import { useEffect, useState } from "react";
+import { TABLE_DATE_FORMAT } from "~/constants";
+import { formatInTimeZone, getTimeZoneName } from "~/timezone";
+
+const MY_TIME_STORAGE_KEY = "showMyTime";
+
+/**
+ * Whether times are shown in the time zone of the viewer instead of the port. The choice is remembered in the browser.
+ * @returns The current choice and a function to change it.
+ */
+export function useShowMyTime() {
+  const [showMyTime, setShowMyTimeState] = useState(false);
+
+  // Local storage is only available after the first render in the browser
+  useEffect(() => {
+    setShowMyTimeState(
+      window.localStorage.getItem(MY_TIME_STORAGE_KEY) === "true",
+    );
+  }, []);
+
+  const setShowMyTime = (value: boolean) => {
+    setShowMyTimeState(value);
+    window.localStorage.setItem(MY_TIME_STORAGE_KEY, String(value));
+  };
+
+  return [showMyTime, setShowMyTime] as const;
+}
+
+/**
+ * Formats a time on the wall clock of a port, or of the viewer, followed by the name of the time zone.
+ * @param date
+ * @param timeZone - IANA time zone of the port.
+ * @param showMyTime - Use the time zone of the viewer instead.
+ * @param pattern - Format of the date and time, e.g. HH:mm for the time only.
+ * @returns
+ */
+export function formatPortTime(
+  date: Date | string,
+  timeZone: string,
+  showMyTime = false,
+  pattern = TABLE_DATE_FORMAT,
+) {
+  const instant = new Date(date);
+  return showMyTime
+    ? `${format(instant, pattern)} ${getTimeZoneName(undefined, instant)}`
+    : `${formatInTimeZone(instant, timeZone, pattern)} ${getTimeZoneName(timeZone, instant)}`;
+}
+
+interface MyTimeToggleProps {
+  showMyTime: boolean;
+  setShowMyTime: (value: boolean) => void;
+}
+
+/**
+ * MyTimeToggle component with a checkbox that switches times between the port's time zone and the viewer's.
+ * @param {MyTimeToggleProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function MyTimeToggle({ showMyTime, setShowMyTime }: MyTimeToggleProps) {
+  return (
+    <label
+      className="flex items-center gap-2 text-sm"
+      title="Times are shown in the time zone of the port unless this is checked"
+    >
+      <input
+        type="checkbox"
+        checked={showMyTime}
+        onChange={(event) => setShowMyTime(event.target.checked)}
+      />
+      Show in my time
+    </label>
+  );
+}
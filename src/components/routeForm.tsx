@@ -0,0 +1,211 @@
+"use client";
+import React, { useEffect } from "react";
+import { Controller, useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Dropdown } from "./dropdown";
+import { assertResponseOk, fetchData, ValidationError } from "~/utils";
+import {
+  routeFieldsSchema,
+  routeSchema,
+  type RouteFormData,
+} from "~/schemas/route";
+import type { RouteWithRelations } from "~/pages/api/route/getAll";
+import type { ReturnType as PortsType } from "~/pages/api/port/getAll";
+import type { ReturnType as VesselsType } from "~/pages/api/vessel/getAll";
+
+interface RouteFormProps {
+  onSuccess: () => void;
+  route?: RouteWithRelations;
+}
+
+/**
+ * RouteForm component for creating a new route, or editing an existing one when a route is given.
+ * @param {Object} props - Component props.
+ * @param {Function} props.onSuccess - Callback function to execute on successful form submission.
+ * @param {Object} [props.route] - Route used to prefill the form. Submitting updates this route instead of creating a new one.
+ * @returns {JSX.Element}
+ */
+const RouteForm: React.FC<RouteFormProps> = ({ onSuccess, route }) => {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    setError,
+    control,
+    formState: { errors },
+  } = useForm<RouteFormData>({
+    resolver: zodResolver(routeSchema),
+    defaultValues: {
+      portOfLoading: route?.portOfLoadingId ?? "",
+      portOfDischarge: route?.portOfDischargeId ?? "",
+      typicalDurationMinutes: route?.typicalDurationMinutes,
+      vessels: route?.vessels.map((vessel) => vessel.id) ?? [],
+    },
+  });
+
+  // Fetching ports and vessels
+  const { data: ports, isError: portsError } = useQuery<PortsType>({
+    queryKey: ["ports"],
+    queryFn: () => fetchData("port/getAll"),
+  });
+
+  const { data: vessels, isError: vesselsError } = useQuery<VesselsType>({
+    queryKey: ["vessels"],
+    queryFn: () => fetchData("vessel/getAll"),
+  });
+
+  useEffect(() => {
+    if (portsError) console.error("Error fetching ports");
+    if (vesselsError) console.error("Error fetching vessels");
+  }, [portsError, vesselsError]);
+
+  const portOptions =
+    ports?.map((port) => ({
+      value: port.id,
+      label: `${port.code} · ${port.name}`,
+    })) ?? [];
+
+  const [portOfLoading, portOfDischarge] = useWatch({
+    control,
+    name: ["portOfLoading", "portOfDischarge"],
+  });
+
+  // Creating a new route, or updating the given one
+  const saveRouteMutation = useMutation({
+    mutationFn: async (data: RouteFormData) => {
+      const response = route
+        ? await fetch(`/api/route/update?id=${route.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          })
+        : await fetch("/api/route/create", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          });
+
+      await assertResponseOk(
+        response,
+        `Failed to ${route ? "update" : "create"} route`,
+      );
+
+      return response.json();
+    },
+    onSuccess: () => {
+      onSuccess();
+    },
+    onError: (error) => {
+      console.error(`Error ${route ? "updating" : "creating"} route:`, error);
+
+      if (!(error instanceof ValidationError)) {
+        setError("root.serverError", { message: error.message });
+        return;
+      }
+
+      // Show the errors of the server next to the fields they belong to
+      const formErrors = [...error.formErrors];
+      for (const [field, messages] of Object.entries(error.fieldErrors)) {
+        if (!messages?.length) continue;
+        if (field in routeFieldsSchema.shape) {
+          setError(field as keyof RouteFormData, {
+            type: "server",
+            message: messages[0],
+          });
+        } else {
+          formErrors.push(...messages);
+        }
+      }
+      if (formErrors.length > 0) {
+        setError("root.serverError", { message: formErrors.join(" ") });
+      }
+    },
+  });
+
+  const onSubmit = (data: RouteFormData) => {
+    saveRouteMutation.mutate(data);
+  };
+
+  return (
+    <form
+      onSubmit={(event) => void handleSubmit(onSubmit)(event)}
+      className="space-y-5"
+    >
+      <div>
+        <Dropdown
+          label="Port of Loading"
+          items={portOptions}
+          selectedItem={portOfLoading}
+          setSelectedItem={(selectedPortId) =>
+            setValue("portOfLoading", selectedPortId)
+          }
+        />
+        {errors.portOfLoading && <p>{errors.portOfLoading.message}</p>}
+      </div>
+      <div>
+        <Dropdown
+          label="Port of Discharge"
+          items={portOptions.map((option) => ({
+            ...option,
+            disabled: option.value === portOfLoading,
+          }))}
+          selectedItem={portOfDischarge}
+          setSelectedItem={(selectedPortId) =>
+            setValue("portOfDischarge", selectedPortId)
+          }
+        />
+        {errors.portOfDischarge && <p>{errors.portOfDischarge.message}</p>}
+      </div>
+      <div>
+        <label>Typical Duration (minutes)</label>
+        <Input
+          type="number"
+          step={1}
+          min={1}
+          {...register("typicalDurationMinutes", { valueAsNumber: true })}
+        />
+        {errors.typicalDurationMinutes && (
+          <p>{errors.typicalDurationMinutes.message}</p>
+        )}
+      </div>
+      <fieldset>
+        <legend>Allowed Vessels</legend>
+        <Controller
+          control={control}
+          name="vessels"
+          render={({ field }) => (
+            <div className="space-y-1 py-2">
+              {vessels?.map((vessel) => (
+                <label
+                  key={vessel.id}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={field.value.includes(vessel.id)}
+                    onChange={(event) =>
+                      field.onChange(
+                        event.target.checked
+                          ? [...field.value, vessel.id]
+                          : field.value.filter((id) => id !== vessel.id),
+                      )
+                    }
+                  />
+                  {vessel.name}
+                </label>
+              ))}
+            </div>
+          )}
+        />
+        {errors.vessels && <p>{errors.vessels.message}</p>}
+      </fieldset>
+      {errors.root?.serverError && <p>{errors.root.serverError.message}</p>}
+      <Button type="submit">{route ? "Save" : "Create"}</Button>
+    </form>
+  );
+};
+
+export default RouteForm;
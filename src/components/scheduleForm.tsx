@@ -0,0 +1,360 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { assertResponseOk, fetchData, ValidationError } from "~/utils";
+import { DateTimePickerField } from "./dateTimePicker";
+import { MultiSelect } from "./multiSelect";
+import { Dropdown } from "./dropdown";
+import type { ReturnType as RoutesType } from "~/pages/api/route/getAll";
+import type { VesselsType as UnitTypesType } from "~/pages/api/unitType/getAll";
+import type { ReturnType as ScheduleResultType } from "~/pages/api/schedule/generate";
+import {
+  scheduleFieldsSchema,
+  scheduleSchema,
+  type ScheduleFormData,
+} from "~/schemas/schedule";
+
+// Monday first, with the day numbers of Date.getDay()
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+interface ScheduleFormProps {
+  onPreview: (result: ScheduleResultType) => void;
+  onGenerated: (result: ScheduleResultType) => void;
+}
+
+/**
+ * ScheduleForm component for generating the voyages of a recurring schedule, with a preview before creating them.
+ * @param {Object} props - Component props.
+ * @param {Function} props.onPreview - Callback function with the voyages that would be created and skipped.
+ * @param {Function} props.onGenerated - Callback function with the voyages that were created and skipped.
+ * @returns {JSX.Element}
+ */
+const ScheduleForm: React.FC<ScheduleFormProps> = ({
+  onPreview,
+  onGenerated,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    setError,
+    control,
+    formState: { errors },
+  } = useForm<ScheduleFormData>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: {
+      portOfLoading: "",
+      portOfDischarge: "",
+      vessels: [] as unknown as [string, ...string[]],
+      weekdays: [] as unknown as [number, ...number[]],
+      departureTime: "15:00",
+      dryRun: false,
+    },
+  });
+
+  // Fetching routes, which define the allowed port pairs and their vessels
+  const { data: routes, isError: routesError } = useQuery<RoutesType>({
+    queryKey: ["routes"],
+    queryFn: () => fetchData("route/getAll"),
+  });
+
+  // Fetching unit types
+  const { data: unitTypesData, isError: unitTypesError } =
+    useQuery<UnitTypesType>({
+      queryKey: ["unitTypes"],
+      queryFn: () => fetchData("unitType/getAll"),
+    });
+
+  useEffect(() => {
+    if (routesError) console.error("Error fetching routes");
+    if (unitTypesError) console.error("Error fetching unit types");
+  }, [routesError, unitTypesError]);
+
+  const unitTypes =
+    unitTypesData?.map((unit) => ({
+      value: unit.id,
+      label: unit.name,
+      group: `${unit.unitGroup.id} · ${unit.unitGroup.name}`,
+    })) ?? [];
+  const [selectedUnitTypes, setSelectedUnitTypes] = useState<
+    { value: string; label: string }[]
+  >([]);
+
+  // Set selected unit types value in form data
+  useEffect(() => {
+    setValue(
+      "unitTypes",
+      selectedUnitTypes.map((unitType) => unitType.value) as [
+        string,
+        ...string[],
+      ],
+    );
+  }, [selectedUnitTypes, setValue]);
+
+  const [portOfLoading, portOfDischarge, vessels, weekdays, from, to] =
+    useWatch({
+      control,
+      name: [
+        "portOfLoading",
+        "portOfDischarge",
+        "vessels",
+        "weekdays",
+        "from",
+        "to",
+      ],
+    });
+
+  const selectedRoute = routes?.find(
+    (route) =>
+      route.portOfLoadingId === portOfLoading &&
+      route.portOfDischargeId === portOfDischarge,
+  );
+
+  // Only ports with at least one outgoing route can be loaded at
+  const portOfLoadingOptions = [
+    ...new Map(
+      routes?.map((route) => [
+        route.portOfLoadingId,
+        { value: route.portOfLoadingId, label: route.portOfLoading.name },
+      ]),
+    ).values(),
+  ];
+
+  const portOfDischargeOptions =
+    routes
+      ?.filter((route) => route.portOfLoadingId === portOfLoading)
+      .map((route) => ({
+        value: route.portOfDischargeId,
+        label: route.portOfDischarge.name,
+      })) ?? [];
+
+  const handlePortOfLoadingChange = (selectedPort: string) => {
+    setValue("portOfLoading", selectedPort);
+    setValue("portOfDischarge", "");
+  };
+
+  // A new route has its own vessels and crossing time
+  const handlePortOfDischargeChange = (selectedPort: string) => {
+    setValue("portOfDischarge", selectedPort);
+    setValue("vessels", [] as unknown as [string, ...string[]]);
+
+    const route = routes?.find(
+      (route) =>
+        route.portOfLoadingId === portOfLoading &&
+        route.portOfDischargeId === selectedPort,
+    );
+    if (route) setValue("durationMinutes", route.typicalDurationMinutes);
+  };
+
+  // The rotation follows the order in which the vessels are ticked
+  const toggleVessel = (vesselId: string) => {
+    const rotation = vessels.includes(vesselId)
+      ? vessels.filter((id) => id !== vesselId)
+      : [...vessels, vesselId];
+    setValue("vessels", rotation as [string, ...string[]]);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const selectedWeekdays = weekdays.includes(weekday)
+      ? weekdays.filter((day) => day !== weekday)
+      : [...weekdays, weekday];
+    setValue("weekdays", selectedWeekdays as [number, ...number[]]);
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async (data: ScheduleFormData) => {
+      const response = await fetch("/api/schedule/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      await assertResponseOk(
+        response,
+        `Failed to ${data.dryRun ? "preview" : "generate"} the schedule`,
+      );
+
+      return response.json() as Promise<ScheduleResultType>;
+    },
+    onSuccess: (result, data) => {
+      if (data.dryRun) {
+        onPreview(result);
+      } else {
+        onGenerated(result);
+      }
+    },
+    onError: (error) => {
+      console.error("Error generating schedule:", error);
+
+      if (!(error instanceof ValidationError)) {
+        setError("root.serverError", { message: error.message });
+        return;
+      }
+
+      // Show the errors of the server next to the fields they belong to
+      const formErrors = [...error.formErrors];
+      for (const [field, messages] of Object.entries(error.fieldErrors)) {
+        if (!messages?.length) continue;
+        if (field in scheduleFieldsSchema.shape) {
+          setError(field as keyof ScheduleFormData, {
+            type: "server",
+            message: messages[0],
+          });
+        } else {
+          formErrors.push(...messages);
+        }
+      }
+      if (formErrors.length > 0) {
+        setError("root.serverError", { message: formErrors.join(" ") });
+      }
+    },
+  });
+
+  const submit = (dryRun: boolean) =>
+    handleSubmit((data) => generateMutation.mutate({ ...data, dryRun }));
+
+  return (
+    <form
+      onSubmit={(event) => void submit(true)(event)}
+      className="max-w-xl space-y-5"
+    >
+      <div>
+        <Dropdown
+          label="Select Port of Loading"
+          items={portOfLoadingOptions}
+          selectedItem={portOfLoading}
+          setSelectedItem={handlePortOfLoadingChange}
+        />
+        {errors.portOfLoading && <p>{errors.portOfLoading.message}</p>}
+      </div>
+      <div>
+        <Dropdown
+          label="Select Port of Discharge"
+          items={portOfDischargeOptions}
+          selectedItem={portOfDischarge}
+          setSelectedItem={handlePortOfDischargeChange}
+        />
+        {errors.portOfDischarge && <p>{errors.portOfDischarge.message}</p>}
+      </div>
+      <div>
+        <label>Vessel Rotation</label>
+        <div className="flex flex-wrap gap-4">
+          {selectedRoute?.vessels.map((vessel) => {
+            const position = vessels.indexOf(vessel.id);
+            return (
+              <label key={vessel.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={position !== -1}
+                  onChange={() => toggleVessel(vessel.id)}
+                />
+                {position !== -1 && `${position + 1}.`} {vessel.name}
+              </label>
+            );
+          })}
+        </div>
+        {errors.vessels && <p>{errors.vessels.message}</p>}
+      </div>
+      <div>
+        <label>Weekdays</label>
+        <div className="flex flex-wrap gap-4">
+          {WEEKDAYS.map((weekday) => (
+            <label key={weekday.value} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={weekdays.includes(weekday.value)}
+                onChange={() => toggleWeekday(weekday.value)}
+              />
+              {weekday.label}
+            </label>
+          ))}
+        </div>
+        {errors.weekdays && <p>{errors.weekdays.message}</p>}
+      </div>
+      <div>
+        <label>Departure Time (local time of the port of loading)</label>
+        <DateTimePickerField
+          control={control}
+          name="departureTime"
+          mode="time"
+          placeholder="Pick a time"
+          aria-label="Departure time"
+        />
+        {errors.departureTime && <p>{errors.departureTime.message}</p>}
+      </div>
+      <div>
+        <label>Duration (minutes)</label>
+        <Input
+          type="number"
+          min={1}
+          {...register("durationMinutes", { valueAsNumber: true })}
+        />
+        {errors.durationMinutes && <p>{errors.durationMinutes.message}</p>}
+      </div>
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label>From</label>
+          <DateTimePickerField
+            control={control}
+            name="from"
+            mode="date"
+            max={to}
+            aria-label="First day of the schedule"
+          />
+          {errors.from && <p>{errors.from.message}</p>}
+        </div>
+        <div className="flex-1">
+          <label>To</label>
+          <DateTimePickerField
+            control={control}
+            name="to"
+            mode="date"
+            min={from}
+            aria-label="Last day of the schedule"
+          />
+          {errors.to && <p>{errors.to.message}</p>}
+        </div>
+      </div>
+      <div>
+        <label>Unit Types</label>
+        <MultiSelect
+          unitTypes={unitTypes}
+          selected={selectedUnitTypes}
+          setSelected={setSelectedUnitTypes}
+        />
+        {errors.unitTypes && <p>{errors.unitTypes.message}</p>}
+      </div>
+      {errors.root?.serverError && <p>{errors.root.serverError.message}</p>}
+      <div className="flex gap-4">
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={generateMutation.isPending}
+        >
+          Preview
+        </Button>
+        <Button
+          type="button"
+          disabled={generateMutation.isPending}
+          onClick={(event) => void submit(false)(event)}
+        >
+          Generate
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ScheduleForm;
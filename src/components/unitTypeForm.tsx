@@ -0,0 +1,195 @@
+"use client";
+import React, { useEffect } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Dropdown } from "./dropdown";
+import { assertResponseOk, fetchData, ValidationError } from "~/utils";
+import { unitTypeSchema, type UnitTypeFormData } from "~/schemas/unitType";
+import type { UnitTypeWithGroup } from "~/pages/api/unitType/getAll";
+import type { ReturnType as UnitGroupsType } from "~/pages/api/unitGroup/getAll";
+
+interface UnitTypeFormProps {
+  onSuccess: () => void;
+  unitType?: UnitTypeWithGroup;
+}
+
+/**
+ * UnitTypeForm component for creating a new unit type, or editing an existing one when a unit type is given.
+ * @param {Object} props - Component props.
+ * @param {Function} props.onSuccess - Callback function to execute on successful form submission.
+ * @param {Object} [props.unitType] - Unit type used to prefill the form. Submitting updates this unit type instead of creating a new one.
+ * @returns {JSX.Element}
+ */
+const UnitTypeForm: React.FC<UnitTypeFormProps> = ({ onSuccess, unitType }) => {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    setError,
+    control,
+    formState: { errors },
+  } = useForm<UnitTypeFormData>({
+    resolver: zodResolver(unitTypeSchema),
+    defaultValues: {
+      id: unitType?.id,
+      name: unitType?.name,
+      defaultLength: unitType?.defaultLength,
+      unitGroupId: unitType?.unitGroupId ?? "",
+      allowDrivers: unitType?.allowDrivers ?? false,
+      mandatoryField:
+        unitType?.mandatoryField === "UnitNumber" ? "UnitNumber" : null,
+      unitNumberAvailable: unitType?.unitNumberAvailable ?? false,
+    },
+  });
+
+  // Fetching unit groups
+  const { data: unitGroups, isError: unitGroupsError } =
+    useQuery<UnitGroupsType>({
+      queryKey: ["unitGroups"],
+      queryFn: () => fetchData("unitGroup/getAll"),
+    });
+
+  useEffect(() => {
+    if (unitGroupsError) console.error("Error fetching unit groups");
+  }, [unitGroupsError]);
+
+  const unitGroupOptions =
+    unitGroups?.map((unitGroup) => ({
+      value: unitGroup.id,
+      label: `${unitGroup.id} · ${unitGroup.name}`,
+    })) ?? [];
+
+  const [unitGroupId, mandatoryField] = useWatch({
+    control,
+    name: ["unitGroupId", "mandatoryField"],
+  });
+
+  // Creating a new unit type, or updating the given one
+  const saveUnitTypeMutation = useMutation({
+    mutationFn: async (data: UnitTypeFormData) => {
+      const response = unitType
+        ? await fetch(`/api/unitType/update?id=${unitType.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          })
+        : await fetch("/api/unitType/create", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          });
+
+      await assertResponseOk(
+        response,
+        `Failed to ${unitType ? "update" : "create"} unit type`,
+      );
+
+      return response.json();
+    },
+    onSuccess: () => {
+      onSuccess();
+    },
+    onError: (error) => {
+      console.error(
+        `Error ${unitType ? "updating" : "creating"} unit type:`,
+        error,
+      );
+
+      if (!(error instanceof ValidationError)) {
+        setError("root.serverError", { message: error.message });
+        return;
+      }
+
+      // Show the errors of the server next to the fields they belong to
+      const formErrors = [...error.formErrors];
+      for (const [field, messages] of Object.entries(error.fieldErrors)) {
+        if (!messages?.length) continue;
+        if (field in unitTypeSchema.shape) {
+          setError(field as keyof UnitTypeFormData, {
+            type: "server",
+            message: messages[0],
+          });
+        } else {
+          formErrors.push(...messages);
+        }
+      }
+      if (formErrors.length > 0) {
+        setError("root.serverError", { message: formErrors.join(" ") });
+      }
+    },
+  });
+
+  const onSubmit = (data: UnitTypeFormData) => {
+    saveUnitTypeMutation.mutate(data);
+  };
+
+  return (
+    <form
+      onSubmit={(event) => void handleSubmit(onSubmit)(event)}
+      className="space-y-5"
+    >
+      <div>
+        <label>ID</label>
+        <Input type="text" disabled={!!unitType} {...register("id")} />
+        {errors.id && <p>{errors.id.message}</p>}
+      </div>
+      <div>
+        <label>Name</label>
+        <Input type="text" {...register("name")} />
+        {errors.name && <p>{errors.name.message}</p>}
+      </div>
+      <div>
+        <label>Default Length</label>
+        <Input
+          type="number"
+          step="any"
+          min={0}
+          {...register("defaultLength", { valueAsNumber: true })}
+        />
+        {errors.defaultLength && <p>{errors.defaultLength.message}</p>}
+      </div>
+      <div>
+        <Dropdown
+          label="Select Unit Group"
+          items={unitGroupOptions}
+          selectedItem={unitGroupId}
+          setSelectedItem={(selectedUnitGroupId) =>
+            setValue("unitGroupId", selectedUnitGroupId)
+          }
+        />
+        {errors.unitGroupId && <p>{errors.unitGroupId.message}</p>}
+      </div>
+      <div className="space-y-2">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" {...register("allowDrivers")} />
+          Drivers allowed
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" {...register("unitNumberAvailable")} />
+          Unit number available
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={mandatoryField === "UnitNumber"}
+            onChange={(event) =>
+              setValue(
+                "mandatoryField",
+                event.target.checked ? "UnitNumber" : null,
+              )
+            }
+          />
+          Unit number mandatory
+        </label>
+        {errors.mandatoryField && <p>{errors.mandatoryField.message}</p>}
+      </div>
+      {errors.root?.serverError && <p>{errors.root.serverError.message}</p>}
+      <Button type="submit">{unitType ? "Save" : "Create"}</Button>
+    </form>
+  );
+};
+
+export default UnitTypeForm;
@@ -0,0 +1,49 @@
+import { cn, formatLaneMetres, getUtilisation } from "~/utils";
+
+interface UtilisationBarProps {
+  laneMetresUsed: number;
+  laneMetreCapacity: number;
+}
+
+/**
+ * UtilisationBar component showing how much of the lane metre capacity of a vessel is in use.
+ * @param {UtilisationBarProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function UtilisationBar({
+  laneMetresUsed,
+  laneMetreCapacity,
+}: UtilisationBarProps) {
+  const utilisation = getUtilisation(laneMetresUsed, laneMetreCapacity);
+  const percentage = Math.round(utilisation * 100);
+
+  return (
+    <div
+      className="flex min-w-32 items-center gap-2"
+      title={`${formatLaneMetres(laneMetresUsed)} of ${formatLaneMetres(laneMetreCapacity)}`}
+    >
+      <div
+        className="h-2 flex-1 overflow-hidden rounded-full bg-secondary"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percentage}
+      >
+        <div
+          className={cn(
+            "h-full rounded-full",
+            utilisation > 1
+              ? "bg-red-500"
+              : utilisation > 0.9
+                ? "bg-amber-500"
+                : "bg-green-500",
+          )}
+          style={{ width: `${Math.min(percentage, 100)}%` }}
+        />
+      </div>
+      <span className="w-10 text-right text-sm tabular-nums">
+        {percentage}%
+      </span>
+    </div>
+  );
+}
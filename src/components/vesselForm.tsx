@@ -0,0 +1,170 @@
+"use client";
+import React from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Vessel } from "@prisma/client";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { assertResponseOk, fetchData, ValidationError } from "~/utils";
+import { vesselSchema, type VesselFormData } from "~/schemas/vessel";
+import type { ReturnType as RoutesType } from "~/pages/api/route/getAll";
+
+interface VesselFormProps {
+  onSuccess: () => void;
+  vessel?: Vessel;
+}
+
+/**
+ * VesselForm component for creating a new vessel, or editing an existing one when a vessel is given.
+ * @param {Object} props - Component props.
+ * @param {Function} props.onSuccess - Callback function to execute on successful form submission.
+ * @param {Object} [props.vessel] - Vessel used to prefill the form. Submitting updates this vessel instead of creating a new one.
+ * @returns {JSX.Element}
+ */
+const VesselForm: React.FC<VesselFormProps> = ({ onSuccess, vessel }) => {
+  const {
+    register,
+    handleSubmit,
+    setError,
+    control,
+    formState: { errors },
+  } = useForm<VesselFormData>({
+    resolver: zodResolver(vesselSchema),
+    defaultValues: vessel && {
+      name: vessel.name,
+      laneMetreCapacity: vessel.laneMetreCapacity,
+    },
+  });
+
+  const { data: routes } = useQuery<RoutesType>({
+    queryKey: ["routes"],
+    queryFn: () => fetchData("route/getAll"),
+  });
+
+  // Routes the vessel is on now, shown until the routes are changed in the form
+  const currentRouteIds =
+    routes
+      ?.filter((route) => route.vessels.some(({ id }) => id === vessel?.id))
+      .map((route) => route.id) ?? [];
+
+  // Creating a new vessel, or updating the given one
+  const saveVesselMutation = useMutation({
+    mutationFn: async (data: VesselFormData) => {
+      const response = vessel
+        ? await fetch(`/api/vessel/update?id=${vessel.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          })
+        : await fetch("/api/vessel/create", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          });
+
+      await assertResponseOk(
+        response,
+        `Failed to ${vessel ? "update" : "create"} vessel`,
+      );
+
+      return response.json();
+    },
+    onSuccess: () => {
+      onSuccess();
+    },
+    onError: (error) => {
+      console.error(`Error ${vessel ? "updating" : "creating"} vessel:`, error);
+
+      if (!(error instanceof ValidationError)) {
+        setError("root.serverError", { message: error.message });
+        return;
+      }
+
+      const { name, laneMetreCapacity, routes } = error.fieldErrors;
+      if (name?.[0]) {
+        setError("name", { type: "server", message: name[0] });
+      }
+      if (laneMetreCapacity?.[0]) {
+        setError("laneMetreCapacity", {
+          type: "server",
+          message: laneMetreCapacity[0],
+        });
+      }
+      if (routes?.[0]) {
+        setError("routes", { type: "server", message: routes[0] });
+      }
+      if (error.formErrors.length > 0) {
+        setError("root.serverError", { message: error.formErrors.join(" ") });
+      }
+    },
+  });
+
+  const onSubmit = (data: VesselFormData) => {
+    saveVesselMutation.mutate(data);
+  };
+
+  return (
+    <form
+      onSubmit={(event) => void handleSubmit(onSubmit)(event)}
+      className="space-y-5"
+    >
+      <div>
+        <label>Name</label>
+        <Input type="text" {...register("name")} />
+        {errors.name && <p>{errors.name.message}</p>}
+      </div>
+      <div>
+        <label>Lane Metre Capacity</label>
+        <Input
+          type="number"
+          step="any"
+          min={0}
+          {...register("laneMetreCapacity", { valueAsNumber: true })}
+        />
+        {errors.laneMetreCapacity && <p>{errors.laneMetreCapacity.message}</p>}
+      </div>
+      <fieldset>
+        <legend>Routes</legend>
+        <p className="text-sm text-muted-foreground">
+          The vessel can only sail voyages on the routes ticked here.
+        </p>
+        <Controller
+          control={control}
+          name="routes"
+          render={({ field }) => {
+            const selectedIds = field.value ?? currentRouteIds;
+            return (
+              <div className="space-y-1 py-2">
+                {routes?.map((route) => (
+                  <label
+                    key={route.id}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(route.id)}
+                      onChange={(event) =>
+                        field.onChange(
+                          event.target.checked
+                            ? [...selectedIds, route.id]
+                            : selectedIds.filter((id) => id !== route.id),
+                        )
+                      }
+                    />
+                    {route.portOfLoading.name} → {route.portOfDischarge.name}
+                  </label>
+                ))}
+              </div>
+            );
+          }}
+        />
+        {errors.routes && <p>{errors.routes.message}</p>}
+      </fieldset>
+      {errors.root?.serverError && <p>{errors.root.serverError.message}</p>}
+      <Button type="submit">{vessel ? "Save" : "Create"}</Button>
+    </form>
+  );
+};
+
+export default VesselForm;
@@ -0,0 +1,389 @@
+import {
+  type InvalidateQueryFilters,
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  eachDayOfInterval,
+  format,
+  startOfDay,
+} from "date-fns";
+import { useRouter } from "next/router";
+import { type PointerEvent, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { useToast } from "~/components/ui/use-toast";
+import type { ReturnType as VesselsReturnType } from "~/pages/api/vessel/getAll";
+import type {
+  ReturnType,
+  VoyageWithRelations,
+} from "~/pages/api/voyage/getAll";
+import { hasSailed } from "~/schemas/voyageStatus";
+import { assertResponseOk, cn, fetchData, ValidationError } from "~/utils";
+import { formatPortTime } from "./portTime";
+import { fetchVoyagesBetween } from "./voyageCalendar";
+
+const WINDOW_DAYS = [7, 14, 28] as const;
+
+// Dragged times are rounded to this many minutes
+const SNAP_MINUTES = 15;
+
+// Below this many pixels a press on a bar is a click, which opens the voyage
+const CLICK_TOLERANCE = 4;
+
+type DragMode = "move" | "departure" | "arrival";
+
+interface Schedule {
+  departure: Date;
+  arrival: Date;
+  vesselId: string;
+}
+
+interface Drag {
+  voyage: VoyageWithRelations;
+  mode: DragMode;
+  startX: number;
+  minutesPerPixel: number;
+  deltaMinutes: number;
+  vesselId: string;
+  hasMoved: boolean;
+}
+
+interface Move extends Schedule {
+  voyage: VoyageWithRelations;
+}
+
+/**
+ * Schedule of a voyage once the drag is applied. Resizing never lets the arrival come before the departure.
+ */
+function applyDrag(drag: Drag): Schedule {
+  const departure = new Date(drag.voyage.scheduledDeparture);
+  const arrival = new Date(drag.voyage.scheduledArrival);
+  const shortest = differenceInMinutes(arrival, departure) - SNAP_MINUTES;
+
+  if (drag.mode === "departure") {
+    return {
+      departure: addMinutes(departure, Math.min(drag.deltaMinutes, shortest)),
+      arrival,
+      vesselId: drag.vesselId,
+    };
+  }
+  if (drag.mode === "arrival") {
+    return {
+      departure,
+      arrival: addMinutes(arrival, Math.max(drag.deltaMinutes, -shortest)),
+      vesselId: drag.vesselId,
+    };
+  }
+  return {
+    departure: addMinutes(departure, drag.deltaMinutes),
+    arrival: addMinutes(arrival, drag.deltaMinutes),
+    vesselId: drag.vesselId,
+  };
+}
+
+/**
+ * Saves a moved voyage. Only the changed fields are sent, so the update API checks them against the rest of the voyage.
+ */
+async function moveVoyage({ voyage, departure, arrival, vesselId }: Move) {
+  const response = await fetch(`/api/voyage/update?id=${voyage.id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      departure: departure.toISOString(),
+      arrival: arrival.toISOString(),
+      vessel: vesselId === voyage.vesselId ? undefined : vesselId,
+    }),
+  });
+
+  await assertResponseOk(response, "Failed to move the voyage");
+}
+
+interface VesselTimelineProps {
+  showMyTime: boolean;
+}
+
+/**
+ * VesselTimeline component that shows one lane per vessel, with its voyages as bars along a time axis.
+ * Dragging a bar moves the voyage in time and dropping it on another lane reassigns the vessel; dragging either end
+ * changes only the departure or the arrival. Moves the update API rejects, e.g. because of an overlap, snap back.
+ * @param {VesselTimelineProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function VesselTimeline({ showMyTime }: VesselTimelineProps) {
+  const [start, setStart] = useState(() => startOfDay(new Date()));
+  const [windowDays, setWindowDays] = useState<number>(WINDOW_DAYS[1]);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  // Moves that are being saved, shown in place until the voyages are fetched again
+  const [pendingMoves, setPendingMoves] = useState<Record<string, Schedule>>(
+    {},
+  );
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const queryClient = useQueryClient();
+
+  const end = addDays(start, windowDays);
+  const windowMinutes = differenceInMinutes(end, start);
+
+  const { data: vessels } = useQuery<VesselsReturnType>({
+    queryKey: ["vessels"],
+    queryFn: () => fetchData("vessel/getAll"),
+  });
+
+  const { data } = useQuery<ReturnType>({
+    queryKey: ["voyages", "timeline", start.toISOString(), end.toISOString()],
+    queryFn: () => fetchVoyagesBetween(start, end, false),
+    placeholderData: keepPreviousData,
+  });
+
+  const clearPendingMove = (voyageId: string) =>
+    setPendingMoves(({ [voyageId]: _, ...rest }) => rest);
+
+  const mutation = useMutation({
+    mutationFn: moveVoyage,
+    onMutate: ({ voyage, ...schedule }) => {
+      setPendingMoves((moves) => ({ ...moves, [voyage.id]: schedule }));
+    },
+    onSuccess: async (_, { voyage }) => {
+      await queryClient.invalidateQueries([
+        "voyages",
+      ] as InvalidateQueryFilters);
+      clearPendingMove(voyage.id);
+    },
+    onError: (error: Error, { voyage }) => {
+      clearPendingMove(voyage.id);
+      toast({
+        title: "Voyage not moved",
+        description:
+          error instanceof ValidationError
+            ? Object.values(error.fieldErrors).flat().join(" ")
+            : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getSchedule = (voyage: VoyageWithRelations): Schedule => {
+    if (drag?.voyage.id === voyage.id) return applyDrag(drag);
+    return (
+      pendingMoves[voyage.id] ?? {
+        departure: new Date(voyage.scheduledDeparture),
+        arrival: new Date(voyage.scheduledArrival),
+        vesselId: voyage.vesselId,
+      }
+    );
+  };
+
+  const voyages = (data?.voyages ?? []).map((voyage) => ({
+    voyage,
+    schedule: getSchedule(voyage),
+  }));
+
+  const handlePointerDown = (
+    event: PointerEvent<HTMLDivElement>,
+    voyage: VoyageWithRelations,
+    mode: DragMode,
+  ) => {
+    if (event.button !== 0 || mutation.isPending) return;
+    event.stopPropagation();
+    const lane = event.currentTarget.closest<HTMLElement>("[data-vessel-id]");
+    if (!lane) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      voyage,
+      mode,
+      startX: event.clientX,
+      minutesPerPixel: windowMinutes / lane.getBoundingClientRect().width,
+      deltaMinutes: 0,
+      vesselId: voyage.vesselId,
+      hasMoved: false,
+    });
+  };
+
+  // The ends of a bar capture the pointer as well, and their events bubble up to the bar
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    // Voyages that have departed keep their schedule and vessel, so pressing them only opens them
+    if (!drag || hasSailed(drag.voyage.status)) return;
+    const deltaX = event.clientX - drag.startX;
+    // Only moving the whole bar can change its vessel
+    const lane =
+      drag.mode === "move"
+        ? document
+            .elementFromPoint(event.clientX, event.clientY)
+            ?.closest<HTMLElement>("[data-vessel-id]")
+        : null;
+    const vesselId = lane?.dataset.vesselId ?? drag.vesselId;
+    setDrag({
+      ...drag,
+      deltaMinutes:
+        Math.round((deltaX * drag.minutesPerPixel) / SNAP_MINUTES) *
+        SNAP_MINUTES,
+      vesselId,
+      hasMoved:
+        drag.hasMoved ||
+        Math.abs(deltaX) > CLICK_TOLERANCE ||
+        vesselId !== drag.voyage.vesselId,
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (!drag.hasMoved) {
+      void router.push(`/voyages/${drag.voyage.id}`);
+      return;
+    }
+    if (drag.deltaMinutes === 0 && drag.vesselId === drag.voyage.vesselId) {
+      return;
+    }
+    mutation.mutate({ voyage: drag.voyage, ...applyDrag(drag) });
+  };
+
+  const getOffset = (date: Date) =>
+    `${(differenceInMinutes(date, start) / windowMinutes) * 100}%`;
+
+  const now = new Date();
+  const days = eachDayOfInterval({ start, end: addDays(end, -1) });
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          onClick={() => setStart(addDays(start, -windowDays))}
+        >
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => setStart(startOfDay(new Date()))}
+        >
+          Today
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => setStart(addDays(start, windowDays))}
+        >
+          Next
+        </Button>
+        <h2 className="mx-4 text-lg font-medium">
+          {format(start, "d MMM")} – {format(addDays(end, -1), "d MMM yyyy")}
+        </h2>
+        <div className="ml-auto flex gap-2">
+          {WINDOW_DAYS.map((count) => (
+            <Button
+              key={count}
+              variant={windowDays === count ? "default" : "outline"}
+              onClick={() => setWindowDays(count)}
+            >
+              {count} days
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="grid select-none grid-cols-[10rem_minmax(0,1fr)]">
+        <div />
+        <div className="flex border-b">
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className="flex-1 truncate border-l px-1 pb-1 text-xs text-muted-foreground"
+            >
+              {format(day, windowDays > 14 ? "d/M" : "EEE d MMM")}
+            </div>
+          ))}
+        </div>
+        {vessels?.map((vessel) => (
+          <div key={vessel.id} className="contents">
+            <div className="flex h-12 items-center truncate border-b pr-2 text-sm font-medium">
+              {vessel.name}
+            </div>
+            <div
+              data-vessel-id={vessel.id}
+              className={cn(
+                "relative h-12 overflow-hidden border-b",
+                drag?.vesselId === vessel.id && "bg-accent",
+              )}
+            >
+              {days.map((day) => (
+                <div
+                  key={day.toISOString()}
+                  className="absolute inset-y-0 border-l"
+                  style={{ left: getOffset(day) }}
+                />
+              ))}
+              {now >= start && now < end && (
+                <div
+                  className="absolute inset-y-0 border-l-2 border-red-500"
+                  style={{ left: getOffset(now) }}
+                />
+              )}
+              {voyages
+                .filter(({ schedule }) => schedule.vesselId === vessel.id)
+                .map(({ voyage, schedule }) => {
+                  const isLocked = hasSailed(voyage.status);
+                  return (
+                    <div
+                      key={voyage.id}
+                      title={[
+                        `${voyage.portOfLoading.name} → ${voyage.portOfDischarge.name}`,
+                        `Departure ${formatPortTime(schedule.departure, voyage.portOfLoading.timezone, showMyTime)}`,
+                        `Arrival ${formatPortTime(schedule.arrival, voyage.portOfDischarge.timezone, showMyTime)}`,
+                        ...(isLocked
+                          ? ["Departed, so it can no longer be moved"]
+                          : []),
+                      ].join("\n")}
+                      className={cn(
+                        "absolute inset-y-2 flex items-center overflow-hidden rounded bg-primary text-xs text-primary-foreground",
+                        isLocked ? "cursor-pointer opacity-70" : "cursor-grab",
+                        drag?.voyage.id === voyage.id &&
+                          "z-10 cursor-grabbing opacity-80 shadow-lg",
+                        voyage.id in pendingMoves && "animate-pulse",
+                      )}
+                      style={{
+                        left: getOffset(schedule.departure),
+                        width: `${(differenceInMinutes(schedule.arrival, schedule.departure) / windowMinutes) * 100}%`,
+                      }}
+                      onPointerDown={(event) =>
+                        handlePointerDown(event, voyage, "move")
+                      }
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={handlePointerUp}
+                      onPointerCancel={() => setDrag(null)}
+                    >
+                      {!isLocked && (
+                        <div
+                          className="h-full w-1.5 shrink-0 cursor-ew-resize bg-primary-foreground/30"
+                          onPointerDown={(event) =>
+                            handlePointerDown(event, voyage, "departure")
+                          }
+                        />
+                      )}
+                      <span className="flex-1 truncate px-1">
+                        {format(schedule.departure, "HH:mm")}{" "}
+                        {voyage.portOfLoading.code} →{" "}
+                        {voyage.portOfDischarge.code}
+                      </span>
+                      {!isLocked && (
+                        <div
+                          className="h-full w-1.5 shrink-0 cursor-ew-resize bg-primary-foreground/30"
+                          onPointerDown={(event) =>
+                            handlePointerDown(event, voyage, "arrival")
+                          }
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import {
+  type InvalidateQueryFilters,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useState } from "react";
+import BookingForm from "~/components/bookingForm";
+import { UtilisationBar } from "~/components/utilisationBar";
+import { Button } from "~/components/ui/button";
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "~/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import {
+  assertResponseOk,
+  fetchData,
+  formatLaneMetres,
+  getLaneMetresBooked,
+} from "~/utils";
+import type {
+  BookingWithUnitType,
+  ReturnType,
+} from "~/pages/api/booking/getAll";
+import type { VoyageWithRelations } from "~/pages/api/voyage/getAll";
+
+interface VoyageBookingsProps {
+  voyage: VoyageWithRelations;
+}
+
+/**
+ * VoyageBookings component listing the units booked on a voyage, with forms to add, edit and remove bookings.
+ * @param {Object} props - Component props.
+ * @param {Object} props.voyage - Voyage to show the bookings of. Only its unit types can be booked.
+ * @returns {JSX.Element}
+ */
+export function VoyageBookings({ voyage }: VoyageBookingsProps) {
+  const [isSheetOpen, setSheetOpen] = useState(false);
+  const [editingBooking, setEditingBooking] =
+    useState<BookingWithUnitType | null>(null);
+  const { toast } = useToast();
+
+  const queryClient = useQueryClient();
+
+  const { data: bookings, isLoading } = useQuery<ReturnType>({
+    queryKey: ["bookings", voyage.id],
+    queryFn: () => fetchData(`booking/getAll?voyage=${voyage.id}`),
+  });
+
+  const laneMetresBooked = getLaneMetresBooked(bookings ?? []);
+
+  // The voyage and the voyages table show the lane metres booked as well
+  const invalidateBookings = () =>
+    Promise.all([
+      queryClient.invalidateQueries([
+        "bookings",
+        voyage.id,
+      ] as InvalidateQueryFilters),
+      queryClient.invalidateQueries([
+        "voyage",
+        voyage.id,
+      ] as InvalidateQueryFilters),
+      queryClient.invalidateQueries(["voyages"] as InvalidateQueryFilters),
+    ]);
+
+  const handleCreateSuccess = () => {
+    toast({
+      title: "Unit booked successfully!",
+      description: "The booking has been added to the voyage.",
+    });
+    setSheetOpen(false);
+    void invalidateBookings();
+  };
+
+  const handleEditSuccess = () => {
+    toast({
+      title: "Booking updated successfully!",
+      description: "The changes have been saved.",
+    });
+    setEditingBooking(null);
+    void invalidateBookings();
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      const response = await fetch(`/api/booking/delete?id=${bookingId}`, {
+        method: "DELETE",
+      });
+
+      await assertResponseOk(response, "Failed to delete the booking");
+    },
+    onSuccess: async () => {
+      await invalidateBookings();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete booking",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-8">
+        <div className="w-full max-w-xs space-y-1">
+          <p className="text-sm text-muted-foreground">
+            {formatLaneMetres(laneMetresBooked)} of{" "}
+            {formatLaneMetres(voyage.vessel.laneMetreCapacity)} booked
+          </p>
+          <UtilisationBar
+            laneMetresUsed={laneMetresBooked}
+            laneMetreCapacity={voyage.vessel.laneMetreCapacity}
+          />
+        </div>
+        <Sheet open={isSheetOpen} onOpenChange={setSheetOpen}>
+          <SheetTrigger asChild>
+            <Button variant="outline">Add booking</Button>
+          </SheetTrigger>
+          <SheetContent>
+            <SheetHeader>
+              <SheetTitle>Book Unit</SheetTitle>
+              <SheetDescription>
+                Fill in the details of the unit to book it on this voyage.
+              </SheetDescription>
+            </SheetHeader>
+            <div className="grid gap-4 py-4">
+              <BookingForm
+                voyageId={voyage.id}
+                unitTypes={voyage.unitTypes}
+                onSuccess={handleCreateSuccess}
+              />
+            </div>
+            <SheetFooter>
+              <SheetClose asChild>
+                <Button variant="outline">Cancel</Button>
+              </SheetClose>
+            </SheetFooter>
+          </SheetContent>
+        </Sheet>
+      </div>
+      <Sheet
+        open={editingBooking !== null}
+        onOpenChange={(open) => !open && setEditingBooking(null)}
+      >
+        <SheetContent>
+          <SheetHeader>
+            <SheetTitle>Edit Booking</SheetTitle>
+            <SheetDescription>
+              Change the details of the booking. Click save when you&apos;re
+              done.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="grid gap-4 py-4">
+            {editingBooking && (
+              <BookingForm
+                key={editingBooking.id}
+                voyageId={voyage.id}
+                unitTypes={voyage.unitTypes}
+                booking={editingBooking}
+                onSuccess={handleEditSuccess}
+              />
+            )}
+          </div>
+          <SheetFooter>
+            <SheetClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </SheetClose>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+      {isLoading && <p>Loading bookings...</p>}
+      {bookings?.length === 0 && <p>No units are booked on this voyage yet.</p>}
+      {bookings && bookings.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Unit Type</TableHead>
+              <TableHead>Unit Number</TableHead>
+              <TableHead>Customer Reference</TableHead>
+              <TableHead>Driver</TableHead>
+              <TableHead>Length</TableHead>
+              <TableHead>&nbsp;</TableHead>
+              <TableHead>&nbsp;</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bookings.map((booking) => (
+              <TableRow key={booking.id}>
+                <TableCell>{booking.unitType.name}</TableCell>
+                <TableCell>{booking.unitNumber ?? "-"}</TableCell>
+                <TableCell>{booking.customerReference}</TableCell>
+                <TableCell>{booking.withDriver ? "Yes" : "No"}</TableCell>
+                <TableCell>
+                  {formatLaneMetres(
+                    booking.length ?? booking.unitType.defaultLength,
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    onClick={() => setEditingBooking(booking)}
+                    variant="outline"
+                  >
+                    Edit
+                  </Button>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    onClick={() => mutation.mutate(booking.id)}
+                    variant="outline"
+                  >
+                    X
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={4}>Total</TableCell>
+              <TableCell>{formatLaneMetres(laneMetresBooked)}</TableCell>
+              <TableCell colSpan={2}>&nbsp;</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import {
+  type InvalidateQueryFilters,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { useToast } from "~/components/ui/use-toast";
+import type {
+  BulkOperationResult,
+  ReturnType as BulkReturnType,
+} from "~/pages/api/voyage/bulk";
+import type { VoyageWithRelations } from "~/pages/api/voyage/getAll";
+import type { VesselsType } from "~/pages/api/vessel/getAll";
+import type { VesselsType as UnitTypesType } from "~/pages/api/unitType/getAll";
+import type { BulkOperation } from "~/schemas/voyageBulk";
+import { assertResponseOk, fetchData } from "~/utils";
+import { Dropdown } from "./dropdown";
+import { formatPortTime } from "./portTime";
+import { MultiSelect } from "./multiSelect";
+
+// Number of failed operations spelled out in the summary toast
+const MAX_LISTED_FAILURES = 3;
+
+/**
+ * Reason an operation failed, including the first error per field.
+ */
+function describeFailure(result: BulkOperationResult) {
+  const fieldMessages = Object.values(result.fieldErrors ?? {}).flatMap(
+    (messages) => messages?.slice(0, 1) ?? [],
+  );
+  return fieldMessages.length > 0
+    ? fieldMessages.join(", ")
+    : (result.error ?? "Unknown error");
+}
+
+interface VoyageBulkActionsProps {
+  voyages: VoyageWithRelations[];
+  showMyTime: boolean;
+  onComplete: () => void;
+}
+
+/**
+ * VoyageBulkActions component that deletes the selected voyages, moves them to another vessel, or adds or removes unit types.
+ * Each action is sent as one bulk request, and the toast summarises which voyages were changed and why the others were not.
+ * @param {VoyageBulkActionsProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function VoyageBulkActions({
+  voyages,
+  showMyTime,
+  onComplete,
+}: VoyageBulkActionsProps) {
+  const [selectedVessel, setSelectedVessel] = useState("");
+  const [selectedUnitTypes, setSelectedUnitTypes] = useState<
+    { value: string; label: string; group?: string }[]
+  >([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: vessels } = useQuery<VesselsType>({
+    queryKey: ["vessels", "dropdown"],
+    queryFn: () => fetchData("vessel/getAll?projection=dropdown"),
+  });
+
+  const { data: unitTypesData } = useQuery<UnitTypesType>({
+    queryKey: ["unitTypes"],
+    queryFn: () => fetchData("unitType/getAll"),
+  });
+  const unitTypes =
+    unitTypesData?.map((unit) => ({
+      value: unit.id,
+      label: unit.name,
+      group: `${unit.unitGroup.id} · ${unit.unitGroup.name}`,
+    })) ?? [];
+
+  const mutation = useMutation({
+    mutationFn: async (operations: BulkOperation[]) => {
+      const response = await fetch("/api/voyage/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ operations }),
+      });
+
+      await assertResponseOk(response, "Failed to change the voyages");
+      return (await response.json()) as BulkReturnType;
+    },
+    onSuccess: ({ results, succeeded, failed }) => {
+      const failures = results
+        .filter((result) => !result.ok)
+        .slice(0, MAX_LISTED_FAILURES)
+        .map((result) => {
+          const voyage = voyages[result.index];
+          const label = voyage
+            ? `${voyage.portOfLoading.name} → ${voyage.portOfDischarge.name} on ${formatPortTime(voyage.scheduledDeparture, voyage.portOfLoading.timezone, showMyTime)}`
+            : `Voyage ${result.index + 1}`;
+          return `${label}: ${describeFailure(result)}`;
+        });
+      if (failed > MAX_LISTED_FAILURES) {
+        failures.push(`and ${failed - MAX_LISTED_FAILURES} more`);
+      }
+
+      toast({
+        title: `${succeeded} of ${results.length} voyages changed`,
+        description:
+          failed > 0 ? (
+            <ul>
+              {failures.map((failure) => (
+                <li key={failure}>{failure}</li>
+              ))}
+            </ul>
+          ) : (
+            "All changes saved."
+          ),
+        variant: failed > 0 ? "destructive" : "default",
+      });
+      onComplete();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change voyages",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: async () => {
+      await queryClient.invalidateQueries([
+        "voyages",
+      ] as InvalidateQueryFilters);
+    },
+  });
+
+  const handleDelete = () => {
+    mutation.mutate(
+      voyages.map((voyage) => ({ action: "delete", id: voyage.id })),
+    );
+  };
+
+  const handleReassign = () => {
+    mutation.mutate(
+      voyages.map((voyage) => ({
+        action: "update",
+        id: voyage.id,
+        data: { vessel: selectedVessel },
+      })),
+    );
+  };
+
+  // The API replaces the unit types of a voyage, so the new list is worked out from the current one
+  const handleChangeUnitTypes = (change: "add" | "remove") => {
+    const unitTypeIds = selectedUnitTypes.map((unitType) => unitType.value);
+    mutation.mutate(
+      voyages.map((voyage) => {
+        const currentIds = voyage.unitTypes.map((unitType) => unitType.id);
+        const nextIds =
+          change === "add"
+            ? [...new Set([...currentIds, ...unitTypeIds])]
+            : currentIds.filter((id) => !unitTypeIds.includes(id));
+        return {
+          action: "update",
+          id: voyage.id,
+          data: { unitTypes: nextIds as [string, ...string[]] },
+        };
+      }),
+    );
+  };
+
+  const isDisabled = voyages.length === 0 || mutation.isPending;
+
+  return (
+    <div className="flex flex-wrap items-end gap-4 py-4">
+      <span className="text-sm text-muted-foreground">
+        {voyages.length} selected
+      </span>
+      <Button
+        variant="destructive"
+        disabled={isDisabled}
+        onClick={handleDelete}
+      >
+        Delete selected
+      </Button>
+      <Dropdown
+        label="Vessel"
+        items={vessels ?? []}
+        selectedItem={selectedVessel}
+        setSelectedItem={setSelectedVessel}
+      />
+      <Button
+        variant="outline"
+        disabled={isDisabled || !selectedVessel}
+        onClick={handleReassign}
+      >
+        Reassign vessel
+      </Button>
+      <div className="w-72">
+        <MultiSelect
+          unitTypes={unitTypes}
+          selected={selectedUnitTypes}
+          setSelected={setSelectedUnitTypes}
+        />
+      </div>
+      <Button
+        variant="outline"
+        disabled={isDisabled || selectedUnitTypes.length === 0}
+        onClick={() => handleChangeUnitTypes("add")}
+      >
+        Add unit types
+      </Button>
+      <Button
+        variant="outline"
+        disabled={isDisabled || selectedUnitTypes.length === 0}
+        onClick={() => handleChangeUnitTypes("remove")}
+      >
+        Remove unit types
+      </Button>
+    </div>
+  );
+}
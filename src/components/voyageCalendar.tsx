@@ -0,0 +1,362 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import {
+  addDays,
+  addHours,
+  addMonths,
+  addWeeks,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  max,
+  min,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import Link from "next/link";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import type {
+  ReturnType,
+  VoyageWithRelations,
+} from "~/pages/api/voyage/getAll";
+import { MAX_PAGE_SIZE } from "~/server/voyageQuery";
+import { getTimeZoneName } from "~/timezone";
+import { cn, fetchData } from "~/utils";
+import { formatPortTime } from "./portTime";
+
+type CalendarView = "week" | "month";
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// Height of one hour in the week view, in pixels
+const HOUR_HEIGHT = 40;
+
+// Class names are spelled out in full, so Tailwind keeps them in the build
+const VESSEL_COLOURS = [
+  "border-sky-500 bg-sky-100 text-sky-900",
+  "border-emerald-500 bg-emerald-100 text-emerald-900",
+  "border-amber-500 bg-amber-100 text-amber-900",
+  "border-rose-500 bg-rose-100 text-rose-900",
+  "border-violet-500 bg-violet-100 text-violet-900",
+  "border-teal-500 bg-teal-100 text-teal-900",
+  "border-orange-500 bg-orange-100 text-orange-900",
+  "border-indigo-500 bg-indigo-100 text-indigo-900",
+];
+
+/**
+ * Colour of a vessel, always the same for the same vessel.
+ */
+export function getVesselColour(vesselId: string) {
+  let hash = 0;
+  for (const char of vesselId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return VESSEL_COLOURS[hash % VESSEL_COLOURS.length] ?? "";
+}
+
+/**
+ * Fetches every voyage at sea between the two dates, page by page.
+ */
+export async function fetchVoyagesBetween(
+  from: Date,
+  to: Date,
+  includeDeleted: boolean,
+): Promise<ReturnType> {
+  const fetchPage = (page: number) =>
+    fetchData(
+      `voyage/getAll?${new URLSearchParams({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        includeDeleted: String(includeDeleted),
+        page: String(page),
+        pageSize: String(MAX_PAGE_SIZE),
+      }).toString()}`,
+    ) as Promise<ReturnType>;
+
+  const firstPage = await fetchPage(1);
+  const pageCount = Math.ceil(firstPage.total / MAX_PAGE_SIZE);
+  const otherPages = await Promise.all(
+    Array.from({ length: Math.max(0, pageCount - 1) }, (_, index) =>
+      fetchPage(index + 2),
+    ),
+  );
+  const voyages = [firstPage, ...otherPages].flatMap((page) => page.voyages);
+  return { voyages, total: voyages.length, page: 1, pageSize: voyages.length };
+}
+
+/**
+ * Places the voyages of one day side by side when they overlap, each in the first lane that is free.
+ * @returns The lane of every voyage and the number of lanes.
+ */
+function assignLanes(voyages: VoyageWithRelations[]) {
+  const laneEnds: Date[] = [];
+  const lanes = new Map<string, number>();
+  for (const voyage of voyages) {
+    const departure = new Date(voyage.scheduledDeparture);
+    const lane = laneEnds.findIndex((laneEnd) => laneEnd <= departure);
+    const index = lane === -1 ? laneEnds.length : lane;
+    laneEnds[index] = new Date(voyage.scheduledArrival);
+    lanes.set(voyage.id, index);
+  }
+  return { lanes, laneCount: Math.max(1, laneEnds.length) };
+}
+
+interface VoyageCalendarProps {
+  showCancelled: boolean;
+  showMyTime: boolean;
+  onCreate: (departure: Date) => void;
+}
+
+/**
+ * VoyageCalendar component that shows the voyages of a week or a month, each spanning its departure to its arrival.
+ * The grid is laid out in the time zone of the viewer, named in its corner. The times written on the voyages follow
+ * the choice to show times in the ports or in the time zone of the viewer.
+ * Clicking an empty hour, or an empty part of a day, starts a new voyage departing then.
+ * @param {VoyageCalendarProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function VoyageCalendar({
+  showCancelled,
+  showMyTime,
+  onCreate,
+}: VoyageCalendarProps) {
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const days =
+    view === "week"
+      ? eachDayOfInterval({
+          start: startOfWeek(anchor, WEEK_OPTIONS),
+          end: endOfWeek(anchor, WEEK_OPTIONS),
+        })
+      : eachDayOfInterval({
+          start: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS),
+          end: endOfWeek(endOfMonth(anchor), WEEK_OPTIONS),
+        });
+  const rangeStart = startOfDay(days[0] ?? anchor);
+  const rangeEnd = addDays(startOfDay(days[days.length - 1] ?? anchor), 1);
+
+  const { data } = useQuery<ReturnType>({
+    queryKey: [
+      "voyages",
+      "calendar",
+      rangeStart.toISOString(),
+      rangeEnd.toISOString(),
+      showCancelled,
+    ],
+    queryFn: () => fetchVoyagesBetween(rangeStart, rangeEnd, showCancelled),
+    placeholderData: keepPreviousData,
+  });
+  const voyages = data?.voyages ?? [];
+
+  // Voyages at sea at some point of the day
+  const getVoyagesOn = (day: Date) =>
+    voyages.filter(
+      (voyage) =>
+        new Date(voyage.scheduledDeparture) < addDays(startOfDay(day), 1) &&
+        new Date(voyage.scheduledArrival) > startOfDay(day),
+    );
+
+  const move = (direction: 1 | -1) =>
+    setAnchor(
+      view === "week"
+        ? addWeeks(anchor, direction)
+        : addMonths(anchor, direction),
+    );
+
+  const formatDepartureTime = (voyage: VoyageWithRelations) =>
+    formatPortTime(
+      voyage.scheduledDeparture,
+      voyage.portOfLoading.timezone,
+      showMyTime,
+      "HH:mm",
+    );
+
+  const getTitle = (voyage: VoyageWithRelations) =>
+    [
+      `${voyage.vessel.name}: ${voyage.portOfLoading.name} → ${voyage.portOfDischarge.name}`,
+      `Departure ${formatPortTime(voyage.scheduledDeparture, voyage.portOfLoading.timezone, showMyTime)}`,
+      `Arrival ${formatPortTime(voyage.scheduledArrival, voyage.portOfDischarge.timezone, showMyTime)}`,
+    ].join("\n");
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" onClick={() => move(-1)}>
+          Previous
+        </Button>
+        <Button variant="outline" onClick={() => setAnchor(new Date())}>
+          Today
+        </Button>
+        <Button variant="outline" onClick={() => move(1)}>
+          Next
+        </Button>
+        <h2 className="mx-4 text-lg font-medium">
+          {view === "week"
+            ? `${format(rangeStart, "d MMM")} – ${format(addDays(rangeEnd, -1), "d MMM yyyy")}`
+            : format(anchor, "MMMM yyyy")}
+        </h2>
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant={view === "week" ? "default" : "outline"}
+            onClick={() => setView("week")}
+          >
+            Week
+          </Button>
+          <Button
+            variant={view === "month" ? "default" : "outline"}
+            onClick={() => setView("month")}
+          >
+            Month
+          </Button>
+        </div>
+      </div>
+      {view === "week" ? (
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))]">
+          <div
+            className="pr-2 text-right text-xs text-muted-foreground"
+            title="The hours are in your time zone"
+          >
+            {getTimeZoneName(undefined, rangeStart)}
+          </div>
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className="border-b pb-2 text-center text-sm font-medium"
+            >
+              {format(day, "EEE d MMM")}
+            </div>
+          ))}
+          <div>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div
+                key={hour}
+                className="pr-2 text-right text-xs text-muted-foreground"
+                style={{ height: HOUR_HEIGHT }}
+              >
+                {String(hour).padStart(2, "0")}:00
+              </div>
+            ))}
+          </div>
+          {days.map((day) => {
+            const dayStart = startOfDay(day);
+            const dayEnd = addDays(dayStart, 1);
+            const dayVoyages = getVoyagesOn(day);
+            const { lanes, laneCount } = assignLanes(dayVoyages);
+            return (
+              <div key={day.toISOString()} className="relative border-l">
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <button
+                    key={hour}
+                    type="button"
+                    aria-label={`New voyage departing ${format(addHours(dayStart, hour), "EEEE d MMMM HH:mm")}`}
+                    className="block w-full border-b hover:bg-accent"
+                    style={{ height: HOUR_HEIGHT }}
+                    onClick={() => onCreate(addHours(dayStart, hour))}
+                  />
+                ))}
+                {dayVoyages.map((voyage) => {
+                  const start = max([
+                    new Date(voyage.scheduledDeparture),
+                    dayStart,
+                  ]);
+                  const end = min([new Date(voyage.scheduledArrival), dayEnd]);
+                  const lane = lanes.get(voyage.id) ?? 0;
+                  return (
+                    <Link
+                      key={voyage.id}
+                      href={`/voyages/${voyage.id}`}
+                      title={getTitle(voyage)}
+                      className={cn(
+                        "absolute overflow-hidden rounded border-l-4 px-1 text-xs",
+                        getVesselColour(voyage.vesselId),
+                        voyage.deletedAt && "line-through opacity-60",
+                      )}
+                      style={{
+                        top:
+                          (differenceInMinutes(start, dayStart) / 60) *
+                          HOUR_HEIGHT,
+                        height: Math.max(
+                          (differenceInMinutes(end, start) / 60) * HOUR_HEIGHT,
+                          HOUR_HEIGHT / 2,
+                        ),
+                        left: `${(lane / laneCount) * 100}%`,
+                        width: `${100 / laneCount}%`,
+                      }}
+                    >
+                      <span className="font-medium">{voyage.vessel.name}</span>
+                      <br />
+                      {formatDepartureTime(voyage)}
+                      <br />
+                      {voyage.portOfLoading.name} →{" "}
+                      {voyage.portOfDischarge.name}
+                    </Link>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 border-l border-t">
+          {days.slice(0, 7).map((day) => (
+            <div
+              key={day.toISOString()}
+              className="border-b border-r py-1 text-center text-sm font-medium"
+            >
+              {format(day, "EEE")}
+            </div>
+          ))}
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "relative min-h-28 border-b border-r p-1",
+                !isSameMonth(day, anchor) && "bg-muted/50",
+              )}
+            >
+              <button
+                type="button"
+                aria-label={`New voyage departing ${format(day, "EEEE d MMMM")}`}
+                className="absolute inset-0 hover:bg-accent"
+                onClick={() => onCreate(startOfDay(day))}
+              />
+              <div
+                className={cn(
+                  "relative text-right text-xs",
+                  isSameDay(day, new Date()) && "font-bold",
+                )}
+              >
+                {format(day, "d")}
+              </div>
+              <div className="relative space-y-1">
+                {getVoyagesOn(day).map((voyage) => (
+                  <Link
+                    key={voyage.id}
+                    href={`/voyages/${voyage.id}`}
+                    title={getTitle(voyage)}
+                    className={cn(
+                      "block truncate rounded border-l-4 px-1 text-xs",
+                      getVesselColour(voyage.vesselId),
+                      voyage.deletedAt && "line-through opacity-60",
+                    )}
+                  >
+                    {isSameDay(new Date(voyage.scheduledDeparture), day) &&
+                      `${formatDepartureTime(voyage)} `}
+                    {voyage.vessel.name}: {voyage.portOfLoading.code} →{" "}
+                    {voyage.portOfDischarge.code}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+import { useQuery } from "@tanstack/react-query";
+import { endOfDay, parse, startOfDay } from "date-fns";
+import { useRouter } from "next/router";
+import { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { Button } from "~/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import { Input } from "~/components/ui/input";
+import type { ReturnType as PortsReturnType } from "~/pages/api/port/getAll";
+import type { ReturnType as VesselsReturnType } from "~/pages/api/vessel/getAll";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  VOYAGE_SORT_FIELDS,
+} from "~/server/voyageQuery";
+import { fetchData } from "~/utils";
+import { DateTimePicker } from "./dateTimePicker";
+
+export const PAGE_SIZES = [10, 20, 50, 100] as const;
+
+// Columns of the voyages table that can be hidden
+export const VOYAGE_COLUMNS = [
+  { id: "departure", label: "Departure" },
+  { id: "arrival", label: "Arrival" },
+  { id: "portOfLoading", label: "Port of loading" },
+  { id: "portOfDischarge", label: "Port of discharge" },
+  { id: "vessel", label: "Vessel" },
+  { id: "status", label: "Status" },
+  { id: "delay", label: "Delay" },
+  { id: "unitTypes", label: "Unit Types" },
+  { id: "utilisation", label: "Utilisation" },
+] as const;
+
+export type VoyageColumn = (typeof VOYAGE_COLUMNS)[number]["id"];
+
+const COLUMN_IDS = VOYAGE_COLUMNS.map((column) => column.id) as string[];
+
+const DAY_FORMAT = "yyyy-MM-dd";
+
+// Waiting this long after the last key press before searching, so every key press does not fetch the voyages
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * State of the voyages table as kept in the query string. Each value falls back to its default on its own, so a
+ * hand-edited or outdated link still opens with the rest of its filters.
+ */
+const voyageTableStateSchema = z.object({
+  page: z.coerce.number().int().min(1).catch(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .catch(DEFAULT_PAGE_SIZE),
+  sortBy: z.enum(VOYAGE_SORT_FIELDS).catch("departure"),
+  sortOrder: z.enum(["asc", "desc"]).catch("asc"),
+  portOfLoading: z.string().min(1).optional().catch(undefined),
+  portOfDischarge: z.string().min(1).optional().catch(undefined),
+  vessel: z.string().min(1).optional().catch(undefined),
+  // Days in the time zone of the viewer, e.g. 2024-05-01
+  from: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .catch(undefined),
+  to: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .catch(undefined),
+  search: z.string().min(1).optional().catch(undefined),
+  includeDeleted: z
+    .enum(["true", "false"])
+    .catch("false")
+    .transform((value) => value === "true"),
+  hidden: z
+    .string()
+    .catch("")
+    .transform(
+      (value) =>
+        value
+          .split(",")
+          .filter((id) => COLUMN_IDS.includes(id)) as VoyageColumn[],
+    ),
+});
+
+export type VoyageTableState = z.infer<typeof voyageTableStateSchema>;
+
+const DEFAULT_STATE = voyageTableStateSchema.parse({});
+
+/**
+ * Keeps the sorting, filters, search, hidden columns and paging of the voyages table in the query string, so a view can
+ * be bookmarked, shared and restored on reload. Changing anything but the page goes back to the first page.
+ * @returns The current state, a function to change part of it, and whether the query string has been read yet.
+ */
+export function useVoyageTableState() {
+  const router = useRouter();
+  const state = voyageTableStateSchema.parse(router.query);
+
+  const updateState = (changes: Partial<VoyageTableState>) => {
+    const nextState: VoyageTableState = { ...state, page: 1, ...changes };
+    // Only values that differ from the defaults are written, to keep links short
+    const query: Record<string, string> = {};
+    for (const [key, value] of Object.entries(nextState)) {
+      const defaultValue = DEFAULT_STATE[key as keyof VoyageTableState];
+      const text = Array.isArray(value) ? value.join(",") : value?.toString();
+      const defaultText = Array.isArray(defaultValue)
+        ? defaultValue.join(",")
+        : defaultValue?.toString();
+      if (text && text !== defaultText) query[key] = text;
+    }
+    void router.replace({ pathname: router.pathname, query }, undefined, {
+      shallow: true,
+      scroll: false,
+    });
+  };
+
+  return [state, updateState, router.isReady] as const;
+}
+
+/**
+ * Query parameters of the voyage list endpoints for the given table state, without paging.
+ * The days of the date range are turned into instants in the time zone of the viewer.
+ */
+export function getVoyageQueryParams(state: VoyageTableState) {
+  const params = new URLSearchParams({
+    sortBy: state.sortBy,
+    sortOrder: state.sortOrder,
+    includeDeleted: String(state.includeDeleted),
+  });
+  if (state.portOfLoading) params.set("portOfLoading", state.portOfLoading);
+  if (state.portOfDischarge) {
+    params.set("portOfDischarge", state.portOfDischarge);
+  }
+  if (state.vessel) params.set("vessel", state.vessel);
+  if (state.from) {
+    params.set(
+      "from",
+      startOfDay(parse(state.from, DAY_FORMAT, new Date())).toISOString(),
+    );
+  }
+  if (state.to) {
+    params.set(
+      "to",
+      endOfDay(parse(state.to, DAY_FORMAT, new Date())).toISOString(),
+    );
+  }
+  if (state.search) params.set("search", state.search);
+  return params;
+}
+
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-transparent px-2 text-sm";
+
+interface VoyageFilterBarProps {
+  state: VoyageTableState;
+  onChange: (changes: Partial<VoyageTableState>) => void;
+}
+
+/**
+ * VoyageFilterBar component that searches and filters the voyages table by port, vessel and date range, and shows or
+ * hides its columns.
+ * @param {VoyageFilterBarProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function VoyageFilterBar({ state, onChange }: VoyageFilterBarProps) {
+  const [search, setSearch] = useState(state.search ?? "");
+  const searchTimer = useRef<number>();
+
+  const { data: ports } = useQuery<PortsReturnType>({
+    queryKey: ["ports"],
+    queryFn: () => fetchData("port/getAll"),
+  });
+
+  const { data: vessels } = useQuery<VesselsReturnType>({
+    queryKey: ["vessels"],
+    queryFn: () => fetchData("vessel/getAll"),
+  });
+
+  // Following the query string when it changes from outside, e.g. on reload or when going back
+  useEffect(() => {
+    setSearch((current) =>
+      current.trim() === (state.search ?? "") ? current : (state.search ?? ""),
+    );
+  }, [state.search]);
+
+  useEffect(() => () => window.clearTimeout(searchTimer.current), []);
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    window.clearTimeout(searchTimer.current);
+    searchTimer.current = window.setTimeout(
+      () => onChange({ search: value.trim() || undefined }),
+      SEARCH_DELAY_MS,
+    );
+  };
+
+  const hasFilters =
+    !!state.search ||
+    !!state.portOfLoading ||
+    !!state.portOfDischarge ||
+    !!state.vessel ||
+    !!state.from ||
+    !!state.to;
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 py-4">
+      <Input
+        type="search"
+        aria-label="Search voyages"
+        placeholder="Search by ID, port or vessel"
+        className="w-64"
+        value={search}
+        onChange={(event) => handleSearchChange(event.target.value)}
+      />
+      <select
+        aria-label="Port of loading"
+        className={SELECT_CLASS_NAME}
+        value={state.portOfLoading ?? ""}
+        onChange={(event) =>
+          onChange({ portOfLoading: event.target.value || undefined })
+        }
+      >
+        <option value="">Any port of loading</option>
+        {ports?.map((port) => (
+          <option key={port.id} value={port.id}>
+            {port.name}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Port of discharge"
+        className={SELECT_CLASS_NAME}
+        value={state.portOfDischarge ?? ""}
+        onChange={(event) =>
+          onChange({ portOfDischarge: event.target.value || undefined })
+        }
+      >
+        <option value="">Any port of discharge</option>
+        {ports?.map((port) => (
+          <option key={port.id} value={port.id}>
+            {port.name}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Vessel"
+        className={SELECT_CLASS_NAME}
+        value={state.vessel ?? ""}
+        onChange={(event) =>
+          onChange({ vessel: event.target.value || undefined })
+        }
+      >
+        <option value="">Any vessel</option>
+        {vessels?.map((vessel) => (
+          <option key={vessel.id} value={vessel.id}>
+            {vessel.name}
+          </option>
+        ))}
+      </select>
+      <div className="w-36">
+        <DateTimePicker
+          mode="date"
+          aria-label="At sea from"
+          placeholder="From"
+          value={state.from ?? ""}
+          max={state.to}
+          onChange={(from) => onChange({ from })}
+        />
+      </div>
+      <div className="w-36">
+        <DateTimePicker
+          mode="date"
+          aria-label="At sea until"
+          placeholder="To"
+          value={state.to ?? ""}
+          min={state.from}
+          onChange={(to) => onChange({ to })}
+        />
+      </div>
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          onClick={() =>
+            onChange({
+              search: undefined,
+              portOfLoading: undefined,
+              portOfDischarge: undefined,
+              vessel: undefined,
+              from: undefined,
+              to: undefined,
+            })
+          }
+        >
+          Clear filters
+        </Button>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="ml-auto">
+            Columns
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {VOYAGE_COLUMNS.map((column) => (
+            <DropdownMenuCheckboxItem
+              key={column.id}
+              checked={!state.hidden.includes(column.id)}
+              // Keeping the menu open, so several columns can be toggled at once
+              onSelect={(event) => event.preventDefault()}
+              onCheckedChange={(isShown) =>
+                onChange({
+                  hidden: isShown
+                    ? state.hidden.filter((id) => id !== column.id)
+                    : [...state.hidden, column.id],
+                  page: state.page,
+                })
+              }
+            >
+              {column.label}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import {
+  type InvalidateQueryFilters,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import { TABLE_DATE_FORMAT } from "~/constants";
+import type { ReturnType as ImportReturnType } from "~/pages/api/voyage/import";
+import { assertResponseOk, ValidationError } from "~/utils";
+import { formatPortTime } from "./portTime";
+
+/**
+ * Formats a date from the CSV for the preview in the time zone of its port, keeping the original text when it is not a valid date.
+ */
+function formatImportedDate(value: string, port: { timezone: string } | null) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return port
+    ? formatPortTime(date, port.timezone)
+    : format(date, TABLE_DATE_FORMAT);
+}
+
+/**
+ * VoyageImportDialog component that imports voyages from a CSV file.
+ * The file is checked first and every row is shown with its errors; the voyages are only created once every row is valid.
+ * @returns {JSX.Element}
+ */
+export function VoyageImportDialog() {
+  const [isOpen, setOpen] = useState(false);
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<ImportReturnType | null>(null);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await fetch("/api/voyage/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, dryRun }),
+      });
+
+      await assertResponseOk(response, "Failed to import the voyages");
+      return (await response.json()) as ImportReturnType;
+    },
+    onMutate: () => setFormErrors([]),
+    onSuccess: async (result, dryRun) => {
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+
+      toast({
+        title: "Voyages imported successfully!",
+        description: `${result.valid} voyage(s) created.`,
+      });
+      handleOpenChange(false);
+      await queryClient.invalidateQueries([
+        "voyages",
+      ] as InvalidateQueryFilters);
+    },
+    onError: (error: Error) => {
+      if (error instanceof ValidationError && error.formErrors.length > 0) {
+        setFormErrors(error.formErrors);
+        return;
+      }
+      toast({
+        title: "Failed to import voyages",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setOpen(open);
+    if (!open) {
+      setCsv("");
+      setPreview(null);
+      setFormErrors([]);
+    }
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    setCsv(file ? await file.text() : "");
+    setPreview(null);
+    setFormErrors([]);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Import</Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] max-w-5xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Voyages</DialogTitle>
+          <DialogDescription>
+            Choose a CSV file with the columns departure, arrival,
+            portOfLoading, portOfDischarge, vessel and unitTypes. Unit type IDs
+            are separated by semicolons, and times without a time zone are the
+            local times of the ports. Check the file before importing it.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(event) => void handleFileChange(event.target.files?.[0])}
+        />
+        {formErrors.map((formError) => (
+          <p key={formError} className="text-sm text-red-500">
+            {formError}
+          </p>
+        ))}
+        {preview && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {preview.valid} valid, {preview.invalid} invalid
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Departure</TableHead>
+                  <TableHead>Arrival</TableHead>
+                  <TableHead>Port of loading</TableHead>
+                  <TableHead>Port of discharge</TableHead>
+                  <TableHead>Vessel</TableHead>
+                  <TableHead>Unit Types</TableHead>
+                  <TableHead>Errors</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row) => (
+                  <TableRow
+                    key={row.line}
+                    className={row.errors ? "bg-red-50" : undefined}
+                  >
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell>
+                      {formatImportedDate(
+                        row.voyage.departure,
+                        row.voyage.portOfLoading,
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatImportedDate(
+                        row.voyage.arrival,
+                        row.voyage.portOfDischarge,
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {row.voyage.portOfLoading?.name ?? "-"}
+                    </TableCell>
+                    <TableCell>
+                      {row.voyage.portOfDischarge?.name ?? "-"}
+                    </TableCell>
+                    <TableCell>{row.voyage.vessel?.name ?? "-"}</TableCell>
+                    <TableCell>{row.voyage.unitTypes.join(", ")}</TableCell>
+                    <TableCell className="text-red-500">
+                      {Object.values(row.errors ?? {})
+                        .flatMap((messages) => messages ?? [])
+                        .join(". ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={csv === "" || mutation.isPending}
+            onClick={() => mutation.mutate(true)}
+          >
+            Check
+          </Button>
+          <Button
+            disabled={
+              !preview ||
+              preview.invalid > 0 ||
+              preview.rows.length === 0 ||
+              mutation.isPending
+            }
+            onClick={() => mutation.mutate(false)}
+          >
+            Import {preview ? preview.valid : ""} voyages
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
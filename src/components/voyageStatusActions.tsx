@@ -0,0 +1,87 @@
+import {
+  type InvalidateQueryFilters,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { Button } from "~/components/ui/button";
+import { useToast } from "~/components/ui/use-toast";
+import { VOYAGE_TRANSITIONS, type VoyageStatus } from "~/schemas/voyageStatus";
+import { assertResponseOk } from "~/utils";
+
+const ACTION_LABELS: Record<VoyageStatus, string> = {
+  PLANNED: "Plan",
+  OPEN_FOR_BOOKING: "Open for booking",
+  CLOSED: "Close",
+  DEPARTED: "Depart",
+  ARRIVED: "Arrive",
+  CANCELLED: "Cancel voyage",
+};
+
+interface VoyageStatusActionsProps {
+  voyageId: string;
+  status: string;
+}
+
+/**
+ * VoyageStatusActions component with a button for every status the voyage can move to next.
+ * Departing and arriving record the current time as the actual departure or arrival.
+ * @param {VoyageStatusActionsProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function VoyageStatusActions({
+  voyageId,
+  status,
+}: VoyageStatusActionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const nextStatuses =
+    status in VOYAGE_TRANSITIONS
+      ? VOYAGE_TRANSITIONS[status as VoyageStatus]
+      : [];
+
+  const mutation = useMutation({
+    mutationFn: async (nextStatus: VoyageStatus) => {
+      const response = await fetch(`/api/voyage/${voyageId}/transition`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: nextStatus }),
+      });
+
+      await assertResponseOk(response, "Failed to change the voyage status");
+    },
+    onSuccess: async () => {
+      await Promise.all([
+        queryClient.invalidateQueries([
+          "voyage",
+          voyageId,
+        ] as InvalidateQueryFilters),
+        queryClient.invalidateQueries(["voyages"] as InvalidateQueryFilters),
+      ]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change voyage status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (nextStatuses.length === 0) return null;
+
+  return (
+    <div className="flex gap-2">
+      {nextStatuses.map((nextStatus) => (
+        <Button
+          key={nextStatus}
+          variant={nextStatus === "CANCELLED" ? "destructive" : "outline"}
+          disabled={mutation.isPending}
+          onClick={() => mutation.mutate(nextStatus)}
+        >
+          {ACTION_LABELS[nextStatus]}
+        </Button>
+      ))}
+    </div>
+  );
+}
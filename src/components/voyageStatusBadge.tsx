@@ -0,0 +1,39 @@
+import { Badge } from "~/components/ui/badge";
+import {
+  VOYAGE_STATUS_LABELS,
+  type VoyageStatus,
+} from "~/schemas/voyageStatus";
+import { cn } from "~/utils";
+
+const STATUS_COLOURS: Record<VoyageStatus, string> = {
+  PLANNED: "bg-slate-500",
+  OPEN_FOR_BOOKING: "bg-green-600",
+  CLOSED: "bg-amber-600",
+  DEPARTED: "bg-blue-600",
+  ARRIVED: "bg-indigo-600",
+  CANCELLED: "bg-red-600",
+};
+
+interface VoyageStatusBadgeProps {
+  status: string;
+}
+
+/**
+ * VoyageStatusBadge component showing the lifecycle status of a voyage in its own colour.
+ * @param {VoyageStatusBadgeProps} props - Component props.
+ * @returns {JSX.Element}
+ */
+export function VoyageStatusBadge({ status }: VoyageStatusBadgeProps) {
+  const isKnownStatus = status in VOYAGE_STATUS_LABELS;
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        "whitespace-nowrap border-transparent text-white",
+        isKnownStatus && STATUS_COLOURS[status as VoyageStatus],
+      )}
+    >
+      {isKnownStatus ? VOYAGE_STATUS_LABELS[status as VoyageStatus] : status}
+    </Badge>
+  );
+}
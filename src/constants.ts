@@ -1 +1,4 @@
-export const TABLE_DATE_FORMAT = "dd/MM/yyyy HH:ss";
+export const TABLE_DATE_FORMAT = "dd/MM/yyyy HH:mm";
+
+// How long a deleted voyage can be brought back before the deletion is sent to the server
+export const UNDO_DELETE_WINDOW_MS = 5000;
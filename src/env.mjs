@@ -9,6 +9,23 @@ export const env = createEnv({
   server: {
     DATABASE_URL: z.string().url(),
     NODE_ENV: z.enum(["development", "test", "production"]),
+    // Minimum time a vessel spends in port between two voyages
+    VESSEL_TURNAROUND_MINUTES: z.coerce.number().int().min(0).default(60),
+    // Fault injection for the API routes, off unless a failure rate or latency is set
+    FAULT_INJECTION_RATE: z.coerce.number().min(0).max(1).default(0),
+    FAULT_INJECTION_STATUS: z.coerce
+      .number()
+      .int()
+      .min(400)
+      .max(599)
+      .default(500),
+    FAULT_INJECTION_LATENCY_MS: z.coerce.number().int().min(0).default(0),
+    FAULT_INJECTION_SEED: z.coerce.number().int().optional(),
+    // Lets each request configure fault injection through x-fault-* headers
+    FAULT_INJECTION_HEADERS: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((value) => value === "true"),
   },
 
   /**
@@ -27,6 +44,12 @@ export const env = createEnv({
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
+    VESSEL_TURNAROUND_MINUTES: process.env.VESSEL_TURNAROUND_MINUTES,
+    FAULT_INJECTION_RATE: process.env.FAULT_INJECTION_RATE,
+    FAULT_INJECTION_STATUS: process.env.FAULT_INJECTION_STATUS,
+    FAULT_INJECTION_LATENCY_MS: process.env.FAULT_INJECTION_LATENCY_MS,
+    FAULT_INJECTION_SEED: process.env.FAULT_INJECTION_SEED,
+    FAULT_INJECTION_HEADERS: process.env.FAULT_INJECTION_HEADERS,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
@@ -0,0 +1,57 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import type { BookingWithUnitType } from "./getAll";
+
+export type ReturnType = BookingWithUnitType;
+
+/**
+ * @swagger
+ * /api/booking/{id}:
+ *   get:
+ *     tags:
+ *       - Booking
+ *     summary: Retrieves a single booking
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the booking to retrieve.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The booking with its unit type.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Booking'
+ *       404:
+ *         description: The booking with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ReturnType | { error: string }>,
+) => {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end();
+    return;
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: req.query.id as string },
+    include: { unitType: true },
+  });
+
+  if (!booking) {
+    res.status(404).json({ error: "Booking not found" });
+    return;
+  }
+
+  res.status(200).json(booking);
+};
+
+export default withFaultInjection(handler);
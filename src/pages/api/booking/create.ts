@@ -0,0 +1,84 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { getBookingErrors } from "~/server/bookings";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { bookingSchema } from "~/schemas/booking";
+
+/**
+ * @swagger
+ * /api/booking/create:
+ *   post:
+ *     tags: [Booking]
+ *     summary: Books a unit on a voyage
+ *     description: The voyage must be open for booking, and the unit type must be one of the unit types of the voyage. A unit number is required when the unit type makes it mandatory, and only accepted when the unit type has one. A driver is only accepted when the unit type allows drivers.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - voyage
+ *               - unitType
+ *               - customerReference
+ *             properties:
+ *               voyage:
+ *                 type: string
+ *                 description: ID of the voyage the unit is booked on.
+ *               unitType:
+ *                 type: string
+ *                 description: ID of the unit type of the unit.
+ *               unitNumber:
+ *                 type: string
+ *                 nullable: true
+ *               length:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Length of the unit in metres. Defaults to the default length of the unit type.
+ *               customerReference:
+ *                 type: string
+ *               withDriver:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Booking created successfully.
+ *       400:
+ *         description: The request body is invalid, the voyage is not open for booking, the booking breaks the rules of its unit type, or the bookings exceed the lane metre capacity of the vessel. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const data = parseRequestBody(bookingSchema, req.body, res);
+    if (!data) return;
+
+    const { voyage, unitType, ...booking } = data;
+
+    const bookingErrors = await getBookingErrors(voyage, {
+      unitType,
+      ...booking,
+    });
+    if (bookingErrors) {
+      sendValidationError(res, bookingErrors);
+      return;
+    }
+
+    const createdBooking = await prisma.booking.create({
+      data: { voyageId: voyage, unitTypeId: unitType, ...booking },
+    });
+    res.status(201).json(createdBooking);
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
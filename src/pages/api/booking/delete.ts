@@ -0,0 +1,48 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/booking/delete:
+ *   delete:
+ *     tags: [Booking]
+ *     summary: Deletes a booking
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the booking to delete.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: The booking was successfully deleted.
+ *       404:
+ *         description: The booking with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only DELETE method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "DELETE") {
+    const id = req.query.id as string;
+
+    const booking = await prisma.booking.findUnique({ where: { id } });
+    if (!booking) {
+      res.status(404).json({ error: "Booking not found" });
+      return;
+    }
+
+    await prisma.booking.delete({ where: { id } });
+    res.status(204).end();
+    return;
+  }
+
+  res.setHeader("Allow", ["DELETE"]);
+  res.status(405).end();
+};
+
+export default withFaultInjection(handler);
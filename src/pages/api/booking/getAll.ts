@@ -0,0 +1,94 @@
+import type { Booking, UnitType } from "@prisma/client";
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+export type BookingWithUnitType = Booking & { unitType: UnitType };
+
+export type ReturnType = BookingWithUnitType[];
+
+/**
+ * @swagger
+ * /api/booking/getAll:
+ *   get:
+ *     tags:
+ *       - Booking
+ *     summary: Retrieves the bookings of a voyage
+ *     description: Returns the bookings of the given voyage with their unit type, in the order they were made.
+ *     parameters:
+ *       - in: query
+ *         name: voyage
+ *         required: true
+ *         description: The ID of the voyage to retrieve the bookings of.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A list of bookings.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: The voyage query parameter is missing.
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ * components:
+ *   schemas:
+ *     Booking:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         voyageId:
+ *           type: string
+ *         unitTypeId:
+ *           type: string
+ *         unitNumber:
+ *           type: string
+ *           nullable: true
+ *           description: Registration or container number of the unit.
+ *         length:
+ *           type: number
+ *           nullable: true
+ *           description: Length of the unit in metres, when it differs from the default length of the unit type.
+ *         customerReference:
+ *           type: string
+ *         withDriver:
+ *           type: boolean
+ *           description: Whether the unit travels with its driver.
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ReturnType | { error: string }>,
+) => {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end();
+    return;
+  }
+
+  const voyageId = req.query.voyage;
+  if (typeof voyageId !== "string" || voyageId === "") {
+    res.status(400).json({ error: "The voyage query parameter is required" });
+    return;
+  }
+
+  const bookings = await prisma.booking.findMany({
+    where: { voyageId },
+    include: { unitType: true },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  res.status(200).json(bookings);
+};
+
+export default withFaultInjection(handler);
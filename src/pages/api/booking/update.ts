@@ -0,0 +1,105 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { getBookingErrors } from "~/server/bookings";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { bookingUpdateSchema } from "~/schemas/booking";
+
+/**
+ * @swagger
+ * /api/booking/update:
+ *   patch:
+ *     tags: [Booking]
+ *     summary: Updates a booking
+ *     description: Updates only the fields present in the request body. The booking stays on its voyage, and is checked against the rules of its unit type again.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the booking to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               unitType:
+ *                 type: string
+ *               unitNumber:
+ *                 type: string
+ *                 nullable: true
+ *               length:
+ *                 type: number
+ *                 nullable: true
+ *               customerReference:
+ *                 type: string
+ *               withDriver:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Booking updated successfully.
+ *       400:
+ *         description: The request body is invalid, the voyage is not open for booking, the booking breaks the rules of its unit type, or the bookings exceed the lane metre capacity of the vessel. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The booking with the specified ID was not found.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "PATCH") {
+    const id = req.query.id as string;
+    const data = parseRequestBody(bookingUpdateSchema, req.body, res);
+    if (!data) return;
+
+    const existingBooking = await prisma.booking.findUnique({ where: { id } });
+    if (!existingBooking) {
+      res.status(404).json({ error: "Booking not found" });
+      return;
+    }
+
+    const { unitType, ...booking } = data;
+
+    // A partial update is checked together with the current fields of the booking
+    const bookingErrors = await getBookingErrors(
+      existingBooking.voyageId,
+      {
+        unitType: unitType ?? existingBooking.unitTypeId,
+        unitNumber:
+          booking.unitNumber !== undefined
+            ? booking.unitNumber
+            : existingBooking.unitNumber,
+        length:
+          booking.length !== undefined
+            ? booking.length
+            : existingBooking.length,
+        withDriver: booking.withDriver ?? existingBooking.withDriver,
+      },
+      id,
+    );
+    if (bookingErrors) {
+      sendValidationError(res, bookingErrors);
+      return;
+    }
+
+    const updatedBooking = await prisma.booking.update({
+      where: { id },
+      data: { unitTypeId: unitType, ...booking },
+    });
+    res.status(200).json(updatedBooking);
+  } else {
+    res.setHeader("Allow", ["PATCH"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
@@ -0,0 +1,92 @@
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { buildCalendar, calendarWindow, sendCalendar } from "~/server/calendar";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/calendar/route/{from}-{to}.ics:
+ *   get:
+ *     tags:
+ *       - Calendar
+ *     summary: iCalendar feed of the sailings between two ports
+ *     description: Returns an RFC 5545 calendar with an event per voyage from one port to the other, from 90 days ago onwards. Every event has a UID based on the voyage ID, so calendar clients that subscribe to the feed pick up changes, and cancelled voyages are kept with the status CANCELLED.
+ *     parameters:
+ *       - in: path
+ *         name: from
+ *         required: true
+ *         description: The ID or UN/LOCODE of the port of loading, e.g. DKCPH.
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: to
+ *         required: true
+ *         description: The ID or UN/LOCODE of the port of discharge. The .ics extension is optional.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The calendar.
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: The route is not given as two ports separated by a hyphen.
+ *       404:
+ *         description: One of the ports was not found.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end();
+    return;
+  }
+
+  const [from, to, ...rest] = (req.query.route as string)
+    .replace(/\.ics$/, "")
+    .split("-");
+  if (!from || !to || rest.length > 0) {
+    res.status(400).json({ error: "Route must be given as {from}-{to}" });
+    return;
+  }
+
+  const findPort = (idOrCode: string) =>
+    prisma.port.findFirst({
+      where: { OR: [{ id: idOrCode }, { code: idOrCode.toUpperCase() }] },
+    });
+  const [portOfLoading, portOfDischarge] = await Promise.all([
+    findPort(from),
+    findPort(to),
+  ]);
+  if (!portOfLoading || !portOfDischarge) {
+    res.status(404).json({ error: "Port not found" });
+    return;
+  }
+
+  const voyages = await prisma.voyage.findMany({
+    where: {
+      portOfLoadingId: portOfLoading.id,
+      portOfDischargeId: portOfDischarge.id,
+      ...calendarWindow(),
+    },
+    orderBy: { scheduledDeparture: "asc" },
+    include: { vessel: {}, portOfLoading: {}, portOfDischarge: {} },
+  });
+
+  sendCalendar(
+    res,
+    `route-${portOfLoading.code}-${portOfDischarge.code}`,
+    buildCalendar(
+      `${portOfLoading.name} → ${portOfDischarge.name} sailings`,
+      voyages,
+    ),
+  );
+};
+
+export default withFaultInjection(handler);
@@ -0,0 +1,63 @@
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { buildCalendar, calendarWindow, sendCalendar } from "~/server/calendar";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/calendar/vessel/{id}.ics:
+ *   get:
+ *     tags:
+ *       - Calendar
+ *     summary: iCalendar feed of the sailings of a vessel
+ *     description: Returns an RFC 5545 calendar with an event per voyage of the vessel, from 90 days ago onwards. Every event has a UID based on the voyage ID, so calendar clients that subscribe to the feed pick up changes, and cancelled voyages are kept with the status CANCELLED.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the vessel. The .ics extension is optional.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The calendar.
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: The vessel with the specified ID was not found.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end();
+    return;
+  }
+
+  const id = (req.query.id as string).replace(/\.ics$/, "");
+  const vessel = await prisma.vessel.findUnique({ where: { id } });
+  if (!vessel) {
+    res.status(404).json({ error: "Vessel not found" });
+    return;
+  }
+
+  const voyages = await prisma.voyage.findMany({
+    where: { vesselId: id, ...calendarWindow() },
+    orderBy: { scheduledDeparture: "asc" },
+    include: { vessel: {}, portOfLoading: {}, portOfDischarge: {} },
+  });
+
+  sendCalendar(
+    res,
+    `vessel-${id}`,
+    buildCalendar(`${vessel.name} sailings`, voyages),
+  );
+};
+
+export default withFaultInjection(handler);
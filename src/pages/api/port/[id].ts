@@ -0,0 +1,54 @@
+import type { Port } from "@prisma/client";
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/port/{id}:
+ *   get:
+ *     tags:
+ *       - Port
+ *     summary: Retrieves a single port
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the port to retrieve.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The port.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Port'
+ *       404:
+ *         description: The port with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<Port | { error: string }>,
+) => {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end();
+    return;
+  }
+
+  const port = await prisma.port.findUnique({
+    where: { id: req.query.id as string },
+  });
+
+  if (!port) {
+    res.status(404).json({ error: "Port not found" });
+    return;
+  }
+
+  res.status(200).json(port);
+};
+
+export default withFaultInjection(handler);
@@ -0,0 +1,73 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { portSchema } from "~/schemas/port";
+import { parseRequestBody } from "~/server/validation";
+
+/**
+ * @swagger
+ * /api/port/create:
+ *   post:
+ *     tags: [Port]
+ *     summary: Creates a new port
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - name
+ *               - country
+ *               - timezone
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: UN/LOCODE of the port, e.g. DKCPH.
+ *               name:
+ *                 type: string
+ *               country:
+ *                 type: string
+ *               timezone:
+ *                 type: string
+ *                 description: IANA time zone of the port, e.g. Europe/Copenhagen.
+ *     responses:
+ *       201:
+ *         description: Port created successfully.
+ *       400:
+ *         description: The request body is invalid. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       409:
+ *         description: A port with the same code already exists.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const data = parseRequestBody(portSchema, req.body, res);
+    if (!data) return;
+
+    const existingPort = await prisma.port.findUnique({
+      where: { code: data.code },
+    });
+    if (existingPort) {
+      res.status(409).json({ error: `Port ${data.code} already exists` });
+      return;
+    }
+
+    const createdPort = await prisma.port.create({ data });
+    res.status(201).json(createdPort);
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
@@ -0,0 +1,80 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/port/delete:
+ *   delete:
+ *     tags: [Port]
+ *     summary: Deletes a port
+ *     description: Deletes a port by its ID. Ports that are still used by voyages or routes cannot be deleted.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the port to delete.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: The port was successfully deleted.
+ *       404:
+ *         description: The port with the specified ID was not found.
+ *       409:
+ *         description: The port is still used by one or more voyages or routes.
+ *       405:
+ *         description: Method Not Allowed. Only DELETE method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "DELETE") {
+    const id = req.query.id as string;
+
+    const port = await prisma.port.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: {
+            departingVoyages: true,
+            arrivingVoyages: true,
+            departingRoutes: true,
+            arrivingRoutes: true,
+          },
+        },
+      },
+    });
+    if (!port) {
+      res.status(404).json({ error: "Port not found" });
+      return;
+    }
+
+    const voyageCount =
+      port._count.departingVoyages + port._count.arrivingVoyages;
+    if (voyageCount > 0) {
+      res.status(409).json({
+        error: `Port ${port.code} is used by ${voyageCount} voyage(s)`,
+      });
+      return;
+    }
+
+    const routeCount = port._count.departingRoutes + port._count.arrivingRoutes;
+    if (routeCount > 0) {
+      res.status(409).json({
+        error: `Port ${port.code} is used by ${routeCount} route(s)`,
+      });
+      return;
+    }
+
+    await prisma.port.delete({ where: { id } });
+    res.status(204).end();
+    return;
+  }
+
+  res.setHeader("Allow", ["DELETE"]);
+  res.status(405).end();
+};
+
+export default withFaultInjection(handler);
@@ -0,0 +1,55 @@
+import type { Port } from "@prisma/client";
+import type { NextApiHandler, NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+export type ReturnType = Port[];
+
+/**
+ * @swagger
+ * /api/port/getAll:
+ *   get:
+ *     tags:
+ *       - Port
+ *     summary: Retrieves all ports
+ *     description: Returns a list of all ports, ordered by name.
+ *     responses:
+ *       200:
+ *         description: A list of ports.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Port'
+ * components:
+ *   schemas:
+ *     Port:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         code:
+ *           type: string
+ *           description: UN/LOCODE of the port.
+ *         name:
+ *           type: string
+ *         country:
+ *           type: string
+ *         timezone:
+ *           type: string
+ *           description: IANA time zone of the port.
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+const handler: NextApiHandler = async (_, res: NextApiResponse<ReturnType>) => {
+  const ports = await prisma.port.findMany({ orderBy: { name: "asc" } });
+
+  res.status(200).json(ports);
+};
+
+export default withFaultInjection(handler);
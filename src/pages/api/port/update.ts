@@ -0,0 +1,87 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { portSchema } from "~/schemas/port";
+import { parseRequestBody } from "~/server/validation";
+
+/**
+ * @swagger
+ * /api/port/update:
+ *   patch:
+ *     tags: [Port]
+ *     summary: Updates a port
+ *     description: Updates only the fields present in the request body.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the port to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               country:
+ *                 type: string
+ *               timezone:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Port updated successfully.
+ *       400:
+ *         description: The request body is invalid. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The port with the specified ID was not found.
+ *       409:
+ *         description: Another port with the same code already exists.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "PATCH") {
+    const id = req.query.id as string;
+    const data = parseRequestBody(portSchema.partial(), req.body, res);
+    if (!data) return;
+
+    const existingPort = await prisma.port.findUnique({ where: { id } });
+    if (!existingPort) {
+      res.status(404).json({ error: "Port not found" });
+      return;
+    }
+
+    const { code } = data;
+    if (code && code !== existingPort.code) {
+      const portWithCode = await prisma.port.findUnique({ where: { code } });
+      if (portWithCode) {
+        res.status(409).json({ error: `Port ${code} already exists` });
+        return;
+      }
+    }
+
+    const updatedPort = await prisma.port.update({
+      where: { id },
+      data,
+    });
+    res.status(200).json(updatedPort);
+  } else {
+    res.setHeader("Allow", ["PATCH"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
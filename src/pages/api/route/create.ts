@@ -0,0 +1,105 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { getRouteReferenceErrors } from "~/server/routes";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { routeSchema } from "~/schemas/route";
+
+/**
+ * @swagger
+ * /api/route/create:
+ *   post:
+ *     tags: [Route]
+ *     summary: Creates a new route
+ *     description: Adds a port pair voyages can sail between, with the vessels allowed on it.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RouteInput'
+ *     responses:
+ *       201:
+ *         description: Route created successfully.
+ *       400:
+ *         description: The request body is invalid, the ports are the same, or a port or vessel does not exist. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       409:
+ *         description: A route between the same ports already exists.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ * components:
+ *   schemas:
+ *     RouteInput:
+ *       type: object
+ *       required:
+ *         - portOfLoading
+ *         - portOfDischarge
+ *         - typicalDurationMinutes
+ *       properties:
+ *         portOfLoading:
+ *           type: string
+ *           description: ID of the port where voyages on the route start.
+ *         portOfDischarge:
+ *           type: string
+ *           description: ID of the port where voyages on the route end.
+ *         typicalDurationMinutes:
+ *           type: integer
+ *           description: Typical crossing duration in minutes.
+ *         vessels:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: IDs of the vessels allowed on the route.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const data = parseRequestBody(routeSchema, req.body, res);
+    if (!data) return;
+
+    const referenceErrors = await getRouteReferenceErrors(data);
+    if (referenceErrors) {
+      sendValidationError(res, referenceErrors);
+      return;
+    }
+
+    const { portOfLoading, portOfDischarge, typicalDurationMinutes, vessels } =
+      data;
+    const existingRoute = await prisma.route.findUnique({
+      where: {
+        portOfLoadingId_portOfDischargeId: {
+          portOfLoadingId: portOfLoading,
+          portOfDischargeId: portOfDischarge,
+        },
+      },
+    });
+    if (existingRoute) {
+      res
+        .status(409)
+        .json({ error: "A route between these ports already exists" });
+      return;
+    }
+
+    const createdRoute = await prisma.route.create({
+      data: {
+        portOfLoadingId: portOfLoading,
+        portOfDischargeId: portOfDischarge,
+        typicalDurationMinutes,
+        vessels: { connect: vessels.map((id) => ({ id })) },
+      },
+      include: { portOfLoading: {}, portOfDischarge: {}, vessels: {} },
+    });
+    res.status(201).json(createdRoute);
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
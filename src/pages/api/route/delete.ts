@@ -0,0 +1,49 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/route/delete:
+ *   delete:
+ *     tags: [Route]
+ *     summary: Deletes a route
+ *     description: Deletes a route by its ID. Voyages already planned between its ports are kept, but no new voyages can be planned between them.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the route to delete.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: The route was successfully deleted.
+ *       404:
+ *         description: The route with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only DELETE method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "DELETE") {
+    const id = req.query.id as string;
+
+    const route = await prisma.route.findUnique({ where: { id } });
+    if (!route) {
+      res.status(404).json({ error: "Route not found" });
+      return;
+    }
+
+    await prisma.route.delete({ where: { id } });
+    res.status(204).end();
+    return;
+  }
+
+  res.setHeader("Allow", ["DELETE"]);
+  res.status(405).end();
+};
+
+export default withFaultInjection(handler);
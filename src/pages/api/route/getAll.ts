@@ -0,0 +1,67 @@
+import type { Port, Route, Vessel } from "@prisma/client";
+import type { NextApiHandler, NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+export type RouteWithRelations = Route & {
+  portOfLoading: Port;
+  portOfDischarge: Port;
+  vessels: Vessel[];
+};
+
+export type ReturnType = RouteWithRelations[];
+
+/**
+ * @swagger
+ * /api/route/getAll:
+ *   get:
+ *     tags:
+ *       - Route
+ *     summary: Retrieves all routes
+ *     description: Returns every port pair voyages can sail between, with the typical crossing duration and the vessels allowed on the route.
+ *     responses:
+ *       200:
+ *         description: A list of routes with their ports and allowed vessels.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   portOfLoadingId:
+ *                     type: string
+ *                   portOfDischargeId:
+ *                     type: string
+ *                   typicalDurationMinutes:
+ *                     type: integer
+ *                     description: Typical crossing duration in minutes.
+ *                   portOfLoading:
+ *                     $ref: '#/components/schemas/Port'
+ *                   portOfDischarge:
+ *                     $ref: '#/components/schemas/Port'
+ *                   vessels:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ */
+const handler: NextApiHandler = async (_, res: NextApiResponse<ReturnType>) => {
+  const routes = await prisma.route.findMany({
+    include: {
+      portOfLoading: {},
+      portOfDischarge: {},
+      vessels: {},
+    },
+  });
+
+  res.status(200).json(routes);
+};
+
+export default withFaultInjection(handler);
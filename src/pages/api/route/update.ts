@@ -0,0 +1,114 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { getRouteReferenceErrors } from "~/server/routes";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { routeFieldsSchema, SAME_PORTS_MESSAGE } from "~/schemas/route";
+
+// Without defaults, so fields missing from a partial update stay as they are
+const routeUpdateSchema = routeFieldsSchema
+  .extend({ vessels: routeFieldsSchema.shape.vessels.removeDefault() })
+  .partial();
+
+/**
+ * @swagger
+ * /api/route/update:
+ *   patch:
+ *     tags: [Route]
+ *     summary: Updates a route
+ *     description: Updates only the fields present in the request body. When vessels is given, the vessels allowed on the route are replaced by the given list.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the route to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RouteInput'
+ *     responses:
+ *       200:
+ *         description: Route updated successfully.
+ *       400:
+ *         description: The request body is invalid, the ports are the same, or a port or vessel does not exist. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The route with the specified ID was not found.
+ *       409:
+ *         description: Another route between the same ports already exists.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "PATCH") {
+    const id = req.query.id as string;
+    const data = parseRequestBody(routeUpdateSchema, req.body, res);
+    if (!data) return;
+
+    const existingRoute = await prisma.route.findUnique({ where: { id } });
+    if (!existingRoute) {
+      res.status(404).json({ error: "Route not found" });
+      return;
+    }
+
+    const referenceErrors = await getRouteReferenceErrors(data);
+    if (referenceErrors) {
+      sendValidationError(res, referenceErrors);
+      return;
+    }
+
+    // A partial update is checked against the current ports of the route
+    const portOfLoadingId = data.portOfLoading ?? existingRoute.portOfLoadingId;
+    const portOfDischargeId =
+      data.portOfDischarge ?? existingRoute.portOfDischargeId;
+    if (portOfLoadingId === portOfDischargeId) {
+      sendValidationError(res, { portOfDischarge: [SAME_PORTS_MESSAGE] });
+      return;
+    }
+
+    const routeWithPorts = await prisma.route.findUnique({
+      where: {
+        portOfLoadingId_portOfDischargeId: {
+          portOfLoadingId,
+          portOfDischargeId,
+        },
+      },
+    });
+    if (routeWithPorts && routeWithPorts.id !== id) {
+      res
+        .status(409)
+        .json({ error: "A route between these ports already exists" });
+      return;
+    }
+
+    const updatedRoute = await prisma.route.update({
+      where: { id },
+      data: {
+        portOfLoadingId,
+        portOfDischargeId,
+        typicalDurationMinutes: data.typicalDurationMinutes,
+        // `set` replaces the whole relation, so vessels missing from the list are no longer allowed on the route
+        vessels: data.vessels
+          ? { set: data.vessels.map((vesselId) => ({ id: vesselId })) }
+          : undefined,
+      },
+      include: { portOfLoading: {}, portOfDischarge: {}, vessels: {} },
+    });
+    res.status(200).json(updatedRoute);
+  } else {
+    res.setHeader("Allow", ["PATCH"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
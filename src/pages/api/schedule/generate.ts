@@ -0,0 +1,185 @@
+import type { Port } from "@prisma/client";
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { getRouteErrors } from "~/server/routes";
+import {
+  planSchedule,
+  type ScheduledVoyage,
+  type SkippedVoyage,
+} from "~/server/schedule";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { getUnitTypeErrors } from "~/server/voyageChecks";
+import { scheduleSchema } from "~/schemas/schedule";
+
+export type ReturnType = {
+  voyages: (ScheduledVoyage & { id?: string })[];
+  skipped: SkippedVoyage[];
+  // The ports of the route, so times can be shown in their time zones
+  portOfLoading: Port;
+  portOfDischarge: Port;
+};
+
+/**
+ * @swagger
+ * /api/schedule/generate:
+ *   post:
+ *     tags: [Schedule]
+ *     summary: Generates the voyages of a recurring schedule
+ *     description: Plans a voyage on every selected weekday between the start and end date, with the vessels of the rotation taking turns. The departure time is the local time of the port of loading. Voyages that would double-book a vessel are skipped and reported. The other voyages are created in a single transaction, unless dryRun is set.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - portOfLoading
+ *               - portOfDischarge
+ *               - vessels
+ *               - weekdays
+ *               - departureTime
+ *               - durationMinutes
+ *               - from
+ *               - to
+ *               - unitTypes
+ *             properties:
+ *               portOfLoading:
+ *                 type: string
+ *                 description: ID of the port the voyages start at.
+ *               portOfDischarge:
+ *                 type: string
+ *                 description: ID of the port the voyages end at.
+ *               vessels:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IDs of the vessels that take turns sailing the route, in order.
+ *               weekdays:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                   minimum: 0
+ *                   maximum: 6
+ *                 description: Days of the week with a departure, where 0 is Sunday.
+ *               departureTime:
+ *                 type: string
+ *                 example: "15:00"
+ *               durationMinutes:
+ *                 type: integer
+ *               from:
+ *                 type: string
+ *                 format: date
+ *               to:
+ *                 type: string
+ *                 format: date
+ *               unitTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IDs of the unit types of every generated voyage.
+ *               dryRun:
+ *                 type: boolean
+ *                 description: Set to true to preview the voyages without creating them.
+ *     responses:
+ *       200:
+ *         description: The voyages that would be created and the ones that would be skipped, for a dry run, with the ports of the route.
+ *       201:
+ *         description: The created voyages and the skipped ones, with the ports of the route.
+ *       400:
+ *         description: The request body is invalid, there is no route between the ports, a vessel is not allowed on it, or a unit type does not exist. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       500:
+ *         description: Internal server error, indicates failure to create the voyages. None of them are created.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ReturnType | { error: string }>,
+) => {
+  if (req.method === "POST") {
+    const schedule = parseRequestBody(scheduleSchema, req.body, res);
+    if (!schedule) return;
+
+    const vesselIds = [...new Set(schedule.vessels)];
+    for (const vesselId of vesselIds) {
+      const routeErrors = await getRouteErrors(
+        schedule.portOfLoading,
+        schedule.portOfDischarge,
+        vesselId,
+      );
+      if (routeErrors) {
+        const { vessel, ...otherErrors } = routeErrors;
+        sendValidationError(res, { ...otherErrors, vessels: vessel });
+        return;
+      }
+    }
+
+    const unitTypeErrors = await getUnitTypeErrors(schedule.unitTypes);
+    if (unitTypeErrors) {
+      sendValidationError(res, unitTypeErrors);
+      return;
+    }
+
+    const [portOfLoading, portOfDischarge, vessels] = await Promise.all([
+      prisma.port.findUniqueOrThrow({ where: { id: schedule.portOfLoading } }),
+      prisma.port.findUniqueOrThrow({
+        where: { id: schedule.portOfDischarge },
+      }),
+      prisma.vessel.findMany({ where: { id: { in: vesselIds } } }),
+    ]);
+    const { voyages, skipped } = await planSchedule(
+      schedule,
+      portOfLoading,
+      vessels,
+    );
+
+    if (schedule.dryRun) {
+      res
+        .status(200)
+        .json({ voyages, skipped, portOfLoading, portOfDischarge });
+      return;
+    }
+
+    try {
+      const createdVoyages = await prisma.$transaction(
+        voyages.map((voyage) =>
+          prisma.voyage.create({
+            data: {
+              scheduledDeparture: voyage.departure,
+              scheduledArrival: voyage.arrival,
+              portOfLoadingId: schedule.portOfLoading,
+              portOfDischargeId: schedule.portOfDischarge,
+              vesselId: voyage.vessel.id,
+              unitTypes: {
+                connect: schedule.unitTypes.map((id) => ({ id })),
+              },
+            },
+          }),
+        ),
+      );
+
+      res.status(201).json({
+        voyages: voyages.map((voyage, index) => ({
+          ...voyage,
+          id: createdVoyages[index]?.id,
+        })),
+        skipped,
+        portOfLoading,
+        portOfDischarge,
+      });
+    } catch (error) {
+      console.error("Error generating schedule:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
@@ -0,0 +1,45 @@
+import type { UnitGroup } from "@prisma/client";
+import type { NextApiHandler, NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+export type ReturnType = UnitGroup[];
+
+/**
+ * @swagger
+ * /api/unitGroup/getAll:
+ *   get:
+ *     tags:
+ *       - UnitType
+ *     summary: Retrieves all unit groups
+ *     description: Returns a list of all unit groups, e.g. flats and containers, that unit types belong to.
+ *     responses:
+ *       200:
+ *         description: A list of unit groups.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   name:
+ *                     type: string
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *                   updatedAt:
+ *                     type: string
+ *                     format: date-time
+ */
+const handler: NextApiHandler = async (_, res: NextApiResponse<ReturnType>) => {
+  const unitGroups = await prisma.unitGroup.findMany({
+    orderBy: { id: "asc" },
+  });
+
+  res.status(200).json(unitGroups);
+};
+
+export default withFaultInjection(handler);
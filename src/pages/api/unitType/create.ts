@@ -0,0 +1,87 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { unitTypeSchema } from "~/schemas/unitType";
+
+/**
+ * @swagger
+ * /api/unitType/create:
+ *   post:
+ *     tags: [UnitType]
+ *     summary: Creates a new unit type
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - id
+ *               - name
+ *               - defaultLength
+ *               - unitGroupId
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 description: Code of the unit type, e.g. 20FL.
+ *               name:
+ *                 type: string
+ *               defaultLength:
+ *                 type: number
+ *               unitGroupId:
+ *                 type: string
+ *               allowDrivers:
+ *                 type: boolean
+ *               mandatoryField:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [UnitNumber]
+ *               unitNumberAvailable:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Unit type created successfully.
+ *       400:
+ *         description: The request body is invalid or the unit group does not exist. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       409:
+ *         description: A unit type with the same ID already exists.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const data = parseRequestBody(unitTypeSchema, req.body, res);
+    if (!data) return;
+
+    const [existingUnitType, unitGroup] = await Promise.all([
+      prisma.unitType.findUnique({ where: { id: data.id } }),
+      prisma.unitGroup.findUnique({ where: { id: data.unitGroupId } }),
+    ]);
+    if (existingUnitType) {
+      res.status(409).json({ error: `Unit type ${data.id} already exists` });
+      return;
+    }
+    if (!unitGroup) {
+      sendValidationError(res, {
+        unitGroupId: ["The selected unit group does not exist"],
+      });
+      return;
+    }
+
+    const createdUnitType = await prisma.unitType.create({ data });
+    res.status(201).json(createdUnitType);
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
@@ -0,0 +1,68 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/unitType/delete:
+ *   delete:
+ *     tags: [UnitType]
+ *     summary: Deletes a unit type
+ *     description: Deletes a unit type by its ID. Unit types that are still used by voyages or bookings cannot be deleted.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the unit type to delete.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: The unit type was successfully deleted.
+ *       404:
+ *         description: The unit type with the specified ID was not found.
+ *       409:
+ *         description: The unit type is still used by one or more voyages or bookings.
+ *       405:
+ *         description: Method Not Allowed. Only DELETE method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "DELETE") {
+    const id = req.query.id as string;
+
+    const unitType = await prisma.unitType.findUnique({
+      where: { id },
+      include: { _count: { select: { voyages: true, bookings: true } } },
+    });
+    if (!unitType) {
+      res.status(404).json({ error: "Unit type not found" });
+      return;
+    }
+
+    if (unitType._count.voyages > 0) {
+      res.status(409).json({
+        error: `${unitType.name} is used by ${unitType._count.voyages} voyage(s)`,
+      });
+      return;
+    }
+
+    if (unitType._count.bookings > 0) {
+      res.status(409).json({
+        error: `${unitType.name} is used by ${unitType._count.bookings} booking(s)`,
+      });
+      return;
+    }
+
+    await prisma.unitType.delete({ where: { id } });
+    res.status(204).end();
+    return;
+  }
+
+  res.setHeader("Allow", ["DELETE"]);
+  res.status(405).end();
+};
+
+export default withFaultInjection(handler);
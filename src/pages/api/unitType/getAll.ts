@@ -1,8 +1,11 @@
-import { UnitType } from "@prisma/client";
+import type { UnitGroup, UnitType } from "@prisma/client";
 import type { NextApiHandler, NextApiResponse } from "next";
 import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
 
-export type VesselsType = UnitType[];
+export type UnitTypeWithGroup = UnitType & { unitGroup: UnitGroup };
+
+export type VesselsType = UnitTypeWithGroup[];
 
 /**
  * @swagger
@@ -10,11 +13,11 @@ export type VesselsType = UnitType[];
  *   get:
  *     tags:
  *       - UnitType
- *     summary: Retrieves all vessels
- *     description: Returns a list of all vessels formatted for dropdown selection, with each vessel's name as the label and its id as the value.
+ *     summary: Retrieves all unit types
+ *     description: Returns a list of all unit types with their unit group, ordered by unit group and name.
  *     responses:
  *       200:
- *         description: A list of vessels formatted for dropdown use.
+ *         description: A list of unit types.
  *         content:
  *           application/json:
  *             schema:
@@ -28,6 +31,25 @@ export type VesselsType = UnitType[];
  *                     type: string
  *                   defaultLength:
  *                     type: number
+ *                   unitGroupId:
+ *                     type: string
+ *                   allowDrivers:
+ *                     type: boolean
+ *                     description: Whether units of this type may travel with a driver.
+ *                   mandatoryField:
+ *                     type: string
+ *                     nullable: true
+ *                     description: Booking field that must be filled in for this unit type, e.g. UnitNumber.
+ *                   unitNumberAvailable:
+ *                     type: boolean
+ *                     description: Whether units of this type have a unit number.
+ *                   unitGroup:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
  *                   createdAt:
  *                     type: string
  *                     format: date-time
@@ -35,14 +57,17 @@ export type VesselsType = UnitType[];
  *                     type: string
  *                     format: date-time
  *       500:
- *         description: Internal Server Error - if there's an issue fetching the vessels.
+ *         description: Internal Server Error - if there's an issue fetching the unit types.
  */
 const handler: NextApiHandler = async (
   _,
   res: NextApiResponse<VesselsType>,
 ) => {
-  const allUnitTypes: UnitType[] = await prisma.unitType.findMany();
+  const allUnitTypes = await prisma.unitType.findMany({
+    include: { unitGroup: {} },
+    orderBy: [{ unitGroupId: "asc" }, { name: "asc" }],
+  });
   res.status(200).json(allUnitTypes);
 };
 
-export default handler;
+export default withFaultInjection(handler);
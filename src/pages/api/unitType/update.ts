@@ -0,0 +1,96 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { unitTypeUpdateSchema } from "~/schemas/unitType";
+
+/**
+ * @swagger
+ * /api/unitType/update:
+ *   patch:
+ *     tags: [UnitType]
+ *     summary: Updates a unit type
+ *     description: Updates only the fields present in the request body. The ID of a unit type cannot be changed.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the unit type to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               defaultLength:
+ *                 type: number
+ *               unitGroupId:
+ *                 type: string
+ *               allowDrivers:
+ *                 type: boolean
+ *               mandatoryField:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [UnitNumber]
+ *               unitNumberAvailable:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Unit type updated successfully.
+ *       400:
+ *         description: The request body is invalid or the unit group does not exist. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The unit type with the specified ID was not found.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "PATCH") {
+    const id = req.query.id as string;
+    const data = parseRequestBody(unitTypeUpdateSchema, req.body, res);
+    if (!data) return;
+
+    const existingUnitType = await prisma.unitType.findUnique({
+      where: { id },
+    });
+    if (!existingUnitType) {
+      res.status(404).json({ error: "Unit type not found" });
+      return;
+    }
+
+    if (data.unitGroupId) {
+      const unitGroup = await prisma.unitGroup.findUnique({
+        where: { id: data.unitGroupId },
+      });
+      if (!unitGroup) {
+        sendValidationError(res, {
+          unitGroupId: ["The selected unit group does not exist"],
+        });
+        return;
+      }
+    }
+
+    const updatedUnitType = await prisma.unitType.update({
+      where: { id },
+      data,
+    });
+    res.status(200).json(updatedUnitType);
+  } else {
+    res.setHeader("Allow", ["PATCH"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
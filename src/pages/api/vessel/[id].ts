@@ -0,0 +1,54 @@
+import type { Vessel } from "@prisma/client";
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/vessel/{id}:
+ *   get:
+ *     tags:
+ *       - Vessel
+ *     summary: Retrieves a single vessel
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the vessel to retrieve.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The vessel.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Vessel'
+ *       404:
+ *         description: The vessel with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<Vessel | { error: string }>,
+) => {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end();
+    return;
+  }
+
+  const vessel = await prisma.vessel.findUnique({
+    where: { id: req.query.id as string },
+  });
+
+  if (!vessel) {
+    res.status(404).json({ error: "Vessel not found" });
+    return;
+  }
+
+  res.status(200).json(vessel);
+};
+
+export default withFaultInjection(handler);
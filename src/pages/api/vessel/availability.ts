@@ -0,0 +1,75 @@
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { withFaultInjection } from "~/server/faultInjection";
+import { findBusyVesselIds } from "~/server/vesselAvailability";
+
+export type ReturnType = { busyVesselIds: string[] };
+
+const availabilityQuerySchema = z.object({
+  departure: z.coerce.date(),
+  arrival: z.coerce.date(),
+  excludeVoyage: z.string().min(1).optional(),
+});
+
+/**
+ * @swagger
+ * /api/vessel/availability:
+ *   get:
+ *     tags:
+ *       - Vessel
+ *     summary: Lists the vessels that are busy in a time window
+ *     description: Returns the IDs of the vessels that have a voyage overlapping the given departure and arrival, including the turnaround time vessels need in port.
+ *     parameters:
+ *       - in: query
+ *         name: departure
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: arrival
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: excludeVoyage
+ *         description: ID of a voyage to ignore, e.g. the voyage that is being edited.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The IDs of the busy vessels.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 busyVesselIds:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: One or more query parameters are invalid.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ReturnType | { error: string }>,
+) => {
+  const parsedQuery = availabilityQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    res.status(400).json({ error: parsedQuery.error.message });
+    return;
+  }
+
+  const { departure, arrival, excludeVoyage } = parsedQuery.data;
+  const busyVesselIds = await findBusyVesselIds(
+    departure,
+    arrival,
+    excludeVoyage,
+  );
+
+  res.status(200).json({ busyVesselIds });
+};
+
+export default withFaultInjection(handler);
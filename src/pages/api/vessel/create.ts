@@ -0,0 +1,74 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { getVesselRouteErrors } from "~/server/routes";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { vesselSchema } from "~/schemas/vessel";
+
+/**
+ * @swagger
+ * /api/vessel/create:
+ *   post:
+ *     tags: [Vessel]
+ *     summary: Creates a new vessel
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - laneMetreCapacity
+ *             properties:
+ *               name:
+ *                 type: string
+ *               laneMetreCapacity:
+ *                 type: number
+ *                 description: Total length of the lanes on the vehicle decks, in metres.
+ *               routes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IDs of the routes the vessel is allowed on.
+ *     responses:
+ *       201:
+ *         description: Vessel created successfully.
+ *       400:
+ *         description: The request body is invalid, or a route does not exist. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const data = parseRequestBody(vesselSchema, req.body, res);
+    if (!data) return;
+
+    const routeErrors = await getVesselRouteErrors(data.routes);
+    if (routeErrors) {
+      sendValidationError(res, routeErrors);
+      return;
+    }
+
+    const { routes, ...fields } = data;
+    const createdVessel = await prisma.vessel.create({
+      data: {
+        ...fields,
+        routes: routes && { connect: routes.map((id) => ({ id })) },
+      },
+    });
+    res.status(201).json(createdVessel);
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
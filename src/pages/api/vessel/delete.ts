@@ -0,0 +1,61 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+
+/**
+ * @swagger
+ * /api/vessel/delete:
+ *   delete:
+ *     tags: [Vessel]
+ *     summary: Deletes a vessel
+ *     description: Deletes a vessel by its ID. Vessels that still have voyages cannot be deleted.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the vessel to delete.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: The vessel was successfully deleted.
+ *       404:
+ *         description: The vessel with the specified ID was not found.
+ *       409:
+ *         description: The vessel still has one or more voyages.
+ *       405:
+ *         description: Method Not Allowed. Only DELETE method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "DELETE") {
+    const id = req.query.id as string;
+
+    const vessel = await prisma.vessel.findUnique({
+      where: { id },
+      include: { _count: { select: { voyages: true } } },
+    });
+    if (!vessel) {
+      res.status(404).json({ error: "Vessel not found" });
+      return;
+    }
+
+    if (vessel._count.voyages > 0) {
+      res.status(409).json({
+        error: `${vessel.name} is used by ${vessel._count.voyages} voyage(s)`,
+      });
+      return;
+    }
+
+    await prisma.vessel.delete({ where: { id } });
+    res.status(204).end();
+    return;
+  }
+
+  res.setHeader("Allow", ["DELETE"]);
+  res.status(405).end();
+};
+
+export default withFaultInjection(handler);
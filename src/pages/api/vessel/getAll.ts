@@ -1,13 +1,11 @@
-import type { NextApiHandler, NextApiResponse } from "next";
+import type { Vessel } from "@prisma/client";
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
 
-// Assuming the type for a single vessel object.
-type Vessel = {
-    id: string; // or number, depending on your database schema
-    name: string;
-  };
+export type ReturnType = Vessel[];
 
-export type VesselsType = ({ value: string, label: string })[];
+export type VesselsType = { value: string; label: string }[];
 
 /**
  * @swagger
@@ -16,31 +14,71 @@ export type VesselsType = ({ value: string, label: string })[];
  *     tags:
  *       - Vessel
  *     summary: Retrieves all vessels
- *     description: Returns a list of all vessels formatted for dropdown selection, with each vessel's name as the label and its id as the value.
+ *     description: Returns a list of all vessels, ordered by name. With the dropdown projection, each vessel is formatted for dropdown selection, with its name as the label and its id as the value.
+ *     parameters:
+ *       - in: query
+ *         name: projection
+ *         description: Set to dropdown to return label/value pairs instead of the vessels.
+ *         schema:
+ *           type: string
+ *           enum: [dropdown]
  *     responses:
  *       200:
- *         description: A list of vessels formatted for dropdown use.
+ *         description: A list of vessels, or a list of label/value pairs with the dropdown projection.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   value:
- *                     type: string
- *                     description: The ID of the vessel.
- *                   label:
- *                     type: string
- *                     description: The name of the vessel.
+ *               oneOf:
+ *                 - type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Vessel'
+ *                 - type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       value:
+ *                         type: string
+ *                         description: The ID of the vessel.
+ *                       label:
+ *                         type: string
+ *                         description: The name of the vessel.
  *       500:
  *         description: Internal Server Error - if there's an issue fetching the vessels.
+ * components:
+ *   schemas:
+ *     Vessel:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         laneMetreCapacity:
+ *           type: number
+ *           description: Total length of the lanes on the vehicle decks, in metres.
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
  */
-const handler: NextApiHandler = async (_, res: NextApiResponse<VesselsType>) => {
-    const allVessel: Vessel[] = await prisma.vessel.findMany();
-    const vessels = allVessel.map(vessel => ({ label: vessel.name, value: vessel.id }))
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ReturnType | VesselsType>,
+) => {
+  const allVessels = await prisma.vessel.findMany({ orderBy: { name: "asc" } });
 
+  if (req.query.projection === "dropdown") {
+    const vessels = allVessels.map((vessel) => ({
+      label: vessel.name,
+      value: vessel.id,
+    }));
     res.status(200).json(vessels);
+    return;
+  }
+
+  res.status(200).json(allVessels);
 };
 
-export default handler;
+export default withFaultInjection(handler);
@@ -0,0 +1,89 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { getVesselRouteErrors } from "~/server/routes";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { vesselSchema } from "~/schemas/vessel";
+
+/**
+ * @swagger
+ * /api/vessel/update:
+ *   patch:
+ *     tags: [Vessel]
+ *     summary: Updates a vessel
+ *     description: Updates only the fields present in the request body. When routes is given, the routes the vessel is allowed on are replaced by the given list.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the vessel to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               laneMetreCapacity:
+ *                 type: number
+ *               routes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IDs of the routes the vessel is allowed on.
+ *     responses:
+ *       200:
+ *         description: Vessel updated successfully.
+ *       400:
+ *         description: The request body is invalid, or a route does not exist. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The vessel with the specified ID was not found.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "PATCH") {
+    const id = req.query.id as string;
+    const data = parseRequestBody(vesselSchema.partial(), req.body, res);
+    if (!data) return;
+
+    const existingVessel = await prisma.vessel.findUnique({ where: { id } });
+    if (!existingVessel) {
+      res.status(404).json({ error: "Vessel not found" });
+      return;
+    }
+
+    const routeErrors = await getVesselRouteErrors(data.routes);
+    if (routeErrors) {
+      sendValidationError(res, routeErrors);
+      return;
+    }
+
+    const { routes, ...fields } = data;
+    const updatedVessel = await prisma.vessel.update({
+      where: { id },
+      data: {
+        ...fields,
+        // `set` replaces the whole relation, so the vessel is taken off routes missing from the list
+        routes: routes && { set: routes.map((routeId) => ({ id: routeId })) },
+      },
+    });
+    res.status(200).json(updatedVessel);
+  } else {
+    res.setHeader("Allow", ["PATCH"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
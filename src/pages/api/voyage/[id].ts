@@ -0,0 +1,135 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import type { VoyageWithRelations } from "./getAll";
+
+export type ReturnType = VoyageWithRelations;
+
+/**
+ * @swagger
+ * /api/voyage/{id}:
+ *   get:
+ *     tags:
+ *       - Voyage
+ *     summary: Retrieves a single voyage
+ *     description: Returns the voyage with the given ID, including details about its vessel and unit types. Cancelled voyages are returned as well, so they can still be looked up.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage to retrieve.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The voyage with its associated vessel and unit types.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 portOfLoadingId:
+ *                   type: string
+ *                 portOfDischargeId:
+ *                   type: string
+ *                 vesselId:
+ *                   type: string
+ *                 scheduledDeparture:
+ *                   type: string
+ *                   format: date-time
+ *                 scheduledArrival:
+ *                   type: string
+ *                   format: date-time
+ *                 status:
+ *                   type: string
+ *                   enum: [PLANNED, OPEN_FOR_BOOKING, CLOSED, DEPARTED, ARRIVED, CANCELLED]
+ *                 actualDeparture:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                 actualArrival:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                 deletedAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                   description: When the voyage was cancelled.
+ *                 cancellationReason:
+ *                   type: string
+ *                   nullable: true
+ *                 createdAt:
+ *                   type: string
+ *                   format: date-time
+ *                 updatedAt:
+ *                   type: string
+ *                   format: date-time
+ *                 portOfLoading:
+ *                   $ref: '#/components/schemas/Port'
+ *                 portOfDischarge:
+ *                   $ref: '#/components/schemas/Port'
+ *                 vessel:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     name:
+ *                       type: string
+ *                     laneMetreCapacity:
+ *                       type: number
+ *                 unitTypes:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                       defaultLength:
+ *                         type: number
+ *                 bookings:
+ *                   type: array
+ *                   description: The units booked on the voyage, each with its unit type, from which the lane metres in use are worked out.
+ *                   items:
+ *                     $ref: '#/components/schemas/Booking'
+ *       404:
+ *         description: The voyage with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ReturnType | { error: string }>,
+) => {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end();
+    return;
+  }
+
+  const voyage = await prisma.voyage.findUnique({
+    where: {
+      id: req.query.id as string,
+    },
+    include: {
+      vessel: {},
+      portOfLoading: {},
+      portOfDischarge: {},
+      unitTypes: {},
+      bookings: { include: { unitType: true } },
+    },
+  });
+
+  if (!voyage) {
+    res.status(404).json({ error: "Voyage not found" });
+    return;
+  }
+
+  res.status(200).json(voyage);
+};
+
+export default withFaultInjection(handler);
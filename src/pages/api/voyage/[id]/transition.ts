@@ -0,0 +1,118 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import {
+  getCancellation,
+  sendTransitionNotAllowed,
+} from "~/server/voyageStatus";
+import { canTransition, voyageTransitionSchema } from "~/schemas/voyageStatus";
+
+/**
+ * @swagger
+ * /api/voyage/{id}/transition:
+ *   post:
+ *     tags: [Voyage]
+ *     summary: Changes the status of a voyage
+ *     description: Moves a voyage through its lifecycle, from planned to open for booking, closed, departed and arrived. A voyage can be cancelled until it departs, which hides it from the voyage list like the delete route. Departing and arriving record the actual departure and arrival times.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PLANNED, OPEN_FOR_BOOKING, CLOSED, DEPARTED, ARRIVED, CANCELLED]
+ *                 description: The status to move the voyage to.
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Actual time of departure or arrival. Defaults to now.
+ *     responses:
+ *       200:
+ *         description: The voyage with its new status.
+ *       400:
+ *         description: The request body is invalid, or the actual arrival is not after the actual departure. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The voyage with the specified ID was not found, or is cancelled.
+ *       409:
+ *         description: The voyage cannot move from its current status to the requested one. The statuses it can move to are listed.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       500:
+ *         description: Internal server error, indicates failure to change the status of the voyage.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const id = req.query.id as string;
+    const data = parseRequestBody(voyageTransitionSchema, req.body, res);
+    if (!data) return;
+
+    const voyage = await prisma.voyage.findFirst({
+      where: { id, deletedAt: null },
+    });
+    if (!voyage) {
+      res.status(404).json({ error: "Voyage not found" });
+      return;
+    }
+
+    const { status } = data;
+    if (!canTransition(voyage.status, status)) {
+      sendTransitionNotAllowed(res, voyage.status, status);
+      return;
+    }
+
+    const at = data.at ? new Date(data.at) : new Date();
+    if (
+      status === "ARRIVED" &&
+      voyage.actualDeparture &&
+      at <= voyage.actualDeparture
+    ) {
+      sendValidationError(res, {
+        at: ["Actual arrival must be after actual departure"],
+      });
+      return;
+    }
+
+    try {
+      const updatedVoyage = await prisma.voyage.update({
+        where: { id },
+        data:
+          status === "CANCELLED"
+            ? getCancellation(voyage)
+            : {
+                status,
+                actualDeparture: status === "DEPARTED" ? at : undefined,
+                actualArrival: status === "ARRIVED" ? at : undefined,
+              },
+      });
+      res.status(200).json(updatedVoyage);
+    } catch (error) {
+      console.error("Error changing the status of the voyage:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
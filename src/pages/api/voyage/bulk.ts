@@ -0,0 +1,353 @@
+import type { Prisma, Voyage } from "@prisma/client";
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import type { z } from "zod";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { type FieldErrors, parseRequestBody } from "~/server/validation";
+import type { ConflictingVoyage } from "~/server/vesselAvailability";
+import {
+  findVoyageProblem,
+  getSailedVoyageErrors,
+  mergeVoyageChange,
+  overlapOnSameVessel,
+  type VoyageFields,
+} from "~/server/voyageChecks";
+import { getCancellation, getTransitionError } from "~/server/voyageStatus";
+import {
+  type BulkAction,
+  bulkOperationSchema,
+  bulkRequestSchema,
+} from "~/schemas/voyageBulk";
+import { canTransition } from "~/schemas/voyageStatus";
+
+export type BulkOperationResult = {
+  index: number;
+  action: BulkAction | null;
+  id: string | null;
+  ok: boolean;
+  error?: string;
+  fieldErrors?: FieldErrors;
+  conflicts?: ConflictingVoyage[];
+};
+
+export type ReturnType = {
+  results: BulkOperationResult[];
+  succeeded: number;
+  failed: number;
+};
+
+/**
+ * Errors per field of one operation. Errors of the voyage fields are listed under the field itself rather than under `data`.
+ * @param error
+ * @returns
+ */
+function getOperationFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const [first, second] = issue.path;
+    const field = String((first === "data" ? second : first) ?? "operation");
+    fieldErrors[field] = [...(fieldErrors[field] ?? []), issue.message];
+  }
+  return fieldErrors;
+}
+
+/**
+ * @swagger
+ * /api/voyage/bulk:
+ *   post:
+ *     tags: [Voyage]
+ *     summary: Creates, updates and cancels many voyages at once
+ *     description: Every operation is checked like its single-voyage route, including that departed and arrived voyages keep their schedule and vessel, and also against the other operations of the request, so a vessel is never double-booked within the batch. The valid operations are saved in a single transaction; invalid ones are skipped and reported with their reason. Deleting a voyage cancels it, like the delete route, so only voyages that have not departed can be deleted.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - operations
+ *             properties:
+ *               operations:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - action
+ *                   properties:
+ *                     action:
+ *                       type: string
+ *                       enum: [create, update, delete]
+ *                     id:
+ *                       type: string
+ *                       description: ID of the voyage to update or delete.
+ *                     data:
+ *                       $ref: '#/components/schemas/VoyageUpdate'
+ *                     reason:
+ *                       type: string
+ *                       description: Why the voyage is cancelled, for delete operations.
+ *     responses:
+ *       200:
+ *         description: The result of every operation, in the order they were sent. Only the operations with ok set were saved.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 succeeded:
+ *                   type: integer
+ *                 failed:
+ *                   type: integer
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       index:
+ *                         type: integer
+ *                         description: Position of the operation in the request.
+ *                       action:
+ *                         type: string
+ *                         enum: [create, update, delete]
+ *                       id:
+ *                         type: string
+ *                         description: ID of the voyage, including the new ID of a created voyage.
+ *                       ok:
+ *                         type: boolean
+ *                       error:
+ *                         type: string
+ *                       fieldErrors:
+ *                         type: object
+ *                         additionalProperties:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                       conflicts:
+ *                         type: array
+ *                         description: The voyages of the vessel that overlap the requested schedule.
+ *                         items:
+ *                           type: object
+ *       400:
+ *         description: The request body is not a list of 1 to 100 operations.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       500:
+ *         description: Internal server error, indicates failure to save the operations. None of them were saved.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const body = parseRequestBody(bulkRequestSchema, req.body, res);
+    if (!body) return;
+
+    const results: BulkOperationResult[] = [];
+    const writes: Prisma.PrismaPromise<Voyage>[] = [];
+    // Results of the operations that are saved, in the same order as `writes`
+    const acceptedResults: BulkOperationResult[] = [];
+    // Schedules the accepted operations leave behind, to catch double bookings within the batch
+    const plannedVoyages: (VoyageFields & { index: number })[] = [];
+    // Voyages whose current schedule is replaced or released by an accepted operation
+    const changedVoyageIds = new Map<string, number>();
+    // Unit types are looked up once for the whole batch, so an unknown one fails its own operation, not the transaction
+    const unitTypes = await prisma.unitType.findMany({ select: { id: true } });
+    const unitTypeIds = new Set(unitTypes.map(({ id }) => id));
+
+    for (const [index, item] of body.operations.entries()) {
+      const parsed = bulkOperationSchema.safeParse(item);
+      if (!parsed.success) {
+        results.push({
+          index,
+          action: null,
+          id: null,
+          ok: false,
+          error: "Validation failed",
+          fieldErrors: getOperationFieldErrors(parsed.error),
+        });
+        continue;
+      }
+
+      const operation = parsed.data;
+      const result: BulkOperationResult = {
+        index,
+        action: operation.action,
+        id: operation.action === "create" ? null : operation.id,
+        ok: false,
+      };
+      results.push(result);
+
+      const unknownUnitTypes =
+        operation.action === "delete"
+          ? []
+          : (operation.data.unitTypes ?? []).filter(
+              (unitTypeId) => !unitTypeIds.has(unitTypeId),
+            );
+      if (unknownUnitTypes.length > 0) {
+        result.error = "Validation failed";
+        result.fieldErrors = {
+          unitTypes: unknownUnitTypes.map(
+            (unitTypeId) => `Unknown unit type "${unitTypeId}"`,
+          ),
+        };
+        continue;
+      }
+
+      let voyage: VoyageFields | null = null;
+      let write: Prisma.PrismaPromise<Voyage>;
+
+      if (operation.action === "create") {
+        voyage = operation.data;
+        write = prisma.voyage.create({
+          data: {
+            scheduledDeparture: voyage.departure,
+            scheduledArrival: voyage.arrival,
+            portOfLoadingId: voyage.portOfLoading,
+            portOfDischargeId: voyage.portOfDischarge,
+            vesselId: voyage.vessel,
+            unitTypes: {
+              connect: voyage.unitTypes.map((id) => ({ id })),
+            },
+          },
+        });
+      } else {
+        const earlierIndex = changedVoyageIds.get(operation.id);
+        if (earlierIndex !== undefined) {
+          result.error = `Voyage is already changed by operation ${earlierIndex}`;
+          continue;
+        }
+
+        const existingVoyage = await prisma.voyage.findFirst({
+          where: { id: operation.id, deletedAt: null },
+          include: { unitTypes: { select: { id: true } } },
+        });
+        if (!existingVoyage) {
+          result.error = "Voyage not found";
+          continue;
+        }
+
+        if (operation.action === "update") {
+          const sailedErrors = getSailedVoyageErrors(
+            existingVoyage,
+            operation.data,
+          );
+          if (sailedErrors) {
+            result.error = "Validation failed";
+            result.fieldErrors = sailedErrors;
+            continue;
+          }
+
+          const { departure, arrival, portOfLoading, portOfDischarge } =
+            operation.data;
+          const { vessel, unitTypes } = operation.data;
+          voyage = mergeVoyageChange(existingVoyage, operation.data);
+          write = prisma.voyage.update({
+            where: { id: operation.id },
+            data: {
+              scheduledDeparture: departure,
+              scheduledArrival: arrival,
+              portOfLoadingId: portOfLoading,
+              portOfDischargeId: portOfDischarge,
+              vesselId: vessel,
+              unitTypes: unitTypes
+                ? { set: unitTypes.map((id) => ({ id })) }
+                : undefined,
+            },
+          });
+        } else {
+          if (!canTransition(existingVoyage.status, "CANCELLED")) {
+            result.error = getTransitionError(
+              existingVoyage.status,
+              "CANCELLED",
+            );
+            continue;
+          }
+
+          write = prisma.voyage.update({
+            where: { id: operation.id },
+            data: getCancellation(existingVoyage, operation.reason),
+          });
+        }
+      }
+
+      if (voyage) {
+        const problem = await findVoyageProblem(voyage, {
+          excludeVoyageId: result.id ?? undefined,
+          checkBookings:
+            operation.action === "update" &&
+            (operation.data.vessel !== undefined ||
+              operation.data.unitTypes !== undefined),
+        });
+        // Voyages moved or cancelled earlier in the batch no longer hold their current schedule
+        const conflicts =
+          problem && "conflicts" in problem
+            ? problem.conflicts.filter(
+                (conflict) => !changedVoyageIds.has(conflict.id),
+              )
+            : [];
+        if (problem && "fieldErrors" in problem) {
+          result.error = "Validation failed";
+          result.fieldErrors = problem.fieldErrors;
+          continue;
+        }
+        if (conflicts.length > 0) {
+          result.error =
+            "The vessel is already booked for an overlapping voyage";
+          result.conflicts = conflicts;
+          continue;
+        }
+
+        const candidate = voyage;
+        const overlappingVoyage = plannedVoyages.find((plannedVoyage) =>
+          overlapOnSameVessel(plannedVoyage, candidate),
+        );
+        if (overlappingVoyage) {
+          result.error = `The vessel is already booked by operation ${overlappingVoyage.index}`;
+          continue;
+        }
+        plannedVoyages.push({ ...voyage, index });
+      }
+
+      if (result.id) changedVoyageIds.set(result.id, index);
+      writes.push(write);
+      acceptedResults.push(result);
+    }
+
+    try {
+      const savedVoyages = await prisma.$transaction(writes);
+      acceptedResults.forEach((result, position) => {
+        result.ok = true;
+        result.id = savedVoyages[position]?.id ?? result.id;
+      });
+    } catch (error) {
+      console.error("Error saving bulk voyage operations:", error);
+      for (const result of acceptedResults) {
+        result.error = "Internal server error";
+      }
+      res.status(500).json({
+        error: "Internal server error",
+        results,
+        succeeded: 0,
+        failed: results.length,
+      });
+      return;
+    }
+
+    const response: ReturnType = {
+      results,
+      succeeded: acceptedResults.length,
+      failed: results.length - acceptedResults.length,
+    };
+    res.status(200).json(response);
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
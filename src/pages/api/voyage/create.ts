@@ -1,5 +1,9 @@
 import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
 import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { parseRequestBody } from "~/server/validation";
+import { findVoyageProblem, sendVoyageProblem } from "~/server/voyageChecks";
+import { voyageSchema } from "~/schemas/voyage";
 
 /**
  * @swagger
@@ -32,10 +36,10 @@ import { prisma } from "~/server/db";
  *                 description: Scheduled arrival date and time.
  *               portOfLoading:
  *                 type: string
- *                 description: The port where the voyage starts.
+ *                 description: ID of the port where the voyage starts.
  *               portOfDischarge:
  *                 type: string
- *                 description: The port where the voyage ends.
+ *                 description: ID of the port where the voyage ends.
  *               vessel:
  *                 type: string
  *                 description: ID of the vessel used for the voyage.
@@ -47,16 +51,73 @@ import { prisma } from "~/server/db";
  *     responses:
  *       201:
  *         description: Voyage created successfully.
+ *       400:
+ *         description: The request body is invalid, there is no route between the ports, the vessel is not allowed on it, or a unit type does not exist. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       409:
+ *         description: The vessel is already booked for a voyage that overlaps this one, including turnaround time. The conflicting voyages are listed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VesselConflict'
  *       500:
  *         description: Internal server error, indicates failure to create the voyage.
  *       405:
  *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ * components:
+ *   schemas:
+ *     ValidationError:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *         fieldErrors:
+ *           type: object
+ *           description: Error messages keyed by the name of the invalid field.
+ *           additionalProperties:
+ *             type: array
+ *             items:
+ *               type: string
+ *         formErrors:
+ *           type: array
+ *           description: Error messages that do not belong to a single field.
+ *           items:
+ *             type: string
+ *     VesselConflict:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *         conflicts:
+ *           type: array
+ *           description: The voyages of the vessel that overlap the requested schedule.
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               scheduledDeparture:
+ *                 type: string
+ *                 format: date-time
+ *               scheduledArrival:
+ *                 type: string
+ *                 format: date-time
+ *               portOfLoading:
+ *                 $ref: '#/components/schemas/Port'
+ *               portOfDischarge:
+ *                 $ref: '#/components/schemas/Port'
  */
 const handler: NextApiHandler = async (
   req: NextApiRequest,
   res: NextApiResponse,
 ) => {
   if (req.method === "POST") {
+    const data = parseRequestBody(voyageSchema, req.body, res);
+    if (!data) return;
+
     const {
       departure,
       arrival,
@@ -64,31 +125,37 @@ const handler: NextApiHandler = async (
       portOfDischarge,
       vessel,
       unitTypes,
-    } = req.body;
+    } = data;
+
+    const problem = await findVoyageProblem(data);
+    if (problem) {
+      sendVoyageProblem(res, problem);
+      return;
+    }
 
     try {
       const createdVoyage = await prisma.voyage.create({
         data: {
           scheduledDeparture: departure,
           scheduledArrival: arrival,
-          portOfLoading,
-          portOfDischarge,
+          portOfLoadingId: portOfLoading,
+          portOfDischargeId: portOfDischarge,
           vesselId: vessel,
           unitTypes: {
-            connect: unitTypes.map((id: string) => ({ id })),
+            connect: unitTypes.map((id) => ({ id })),
           },
         },
       });
 
       res.status(201).json(createdVoyage); // Return the created voyage as JSON -> so we can act upon successful requests in the UI - used by toast, to refresh voyage list & to close sheet component
     } catch (error) {
-      console.error('Error creating voyage:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      console.error("Error creating voyage:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   } else {
-    res.setHeader('Allow', ['POST']);
+    res.setHeader("Allow", ["POST"]);
     res.status(405).end(`Method ${req.method} not allowed`);
   }
 };
 
-export default handler;
+export default withFaultInjection(handler);
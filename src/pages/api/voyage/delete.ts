@@ -1,57 +1,100 @@
 import type { Vessel, Voyage } from "@prisma/client";
 import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { z } from "zod";
 import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { parseRequestBody } from "~/server/validation";
+import {
+  getCancellation,
+  sendTransitionNotAllowed,
+} from "~/server/voyageStatus";
+import { canTransition } from "~/schemas/voyageStatus";
 
 export type ReturnType = (Voyage & { vessel: Vessel })[];
 
+const cancellationSchema = z
+  .object({
+    reason: z.string().trim().min(1).optional(),
+  })
+  .default({});
+
 /**
  * @swagger
- * /api/voyage/delete/{id}:
+ * /api/voyage/delete:
  *   delete:
  *     tags:
  *       - Voyage
- *     summary: Deletes a voyage
- *     description: Deletes a voyage by its ID. Note that this operation randomly fails to demonstrate error handling.
+ *     summary: Cancels a voyage
+ *     description: Cancels a voyage by its ID, moving it to the Cancelled status. The voyage is kept for reporting, hidden from the voyage list, and can be restored. A voyage can only be cancelled until it departs.
  *     parameters:
- *       - in: path
+ *       - in: query
  *         name: id
  *         required: true
- *         description: The ID of the voyage to delete.
+ *         description: The ID of the voyage to cancel.
  *         schema:
  *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Why the voyage is cancelled.
  *     responses:
  *       204:
- *         description: The voyage was successfully deleted.
+ *         description: The voyage was successfully cancelled.
  *       400:
- *         description: Failed to delete the voyage due to a random error.
+ *         description: The request body is invalid.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  *       404:
- *         description: The voyage with the specified ID was not found.
+ *         description: The voyage with the specified ID was not found, or is already cancelled.
+ *       409:
+ *         description: The voyage has already departed or arrived, so it can no longer be cancelled. The statuses it can move to are listed.
  *       405:
  *         description: Method Not Allowed. Only DELETE method is supported on this endpoint.
  */
 const handler: NextApiHandler = async (
   req: NextApiRequest,
-  res: NextApiResponse<undefined>,
+  res: NextApiResponse,
 ) => {
   if (req.method === "DELETE") {
-    // randomly fail the delete request
-    const maybe = Math.round(Math.random());
-    if (maybe) {
-      res.status(400).end();
+    // The reason is optional, so the request may come without a body
+    const data = parseRequestBody(
+      cancellationSchema,
+      req.body === "" ? undefined : req.body,
+      res,
+    );
+    if (!data) return;
+
+    const id = req.query.id as string;
+    const voyage = await prisma.voyage.findFirst({
+      where: { id, deletedAt: null },
+    });
+    if (!voyage) {
+      res.status(404).json({ error: "Voyage not found" });
       return;
     }
-    const deletedVoyage = await prisma.voyage.delete({
-      where: {
-        id: req.query.id as string,
-      },
-    });
 
-    deletedVoyage ? res.status(204) : res.status(404);
-    res.end();
+    if (!canTransition(voyage.status, "CANCELLED")) {
+      sendTransitionNotAllowed(res, voyage.status, "CANCELLED");
+      return;
+    }
+
+    await prisma.voyage.update({
+      where: { id },
+      data: getCancellation(voyage, data.reason),
+    });
+    res.status(204).end();
     return;
   }
 
   res.status(405).end();
 };
 
-export default handler;
+export default withFaultInjection(handler);
@@ -0,0 +1,179 @@
+import { format } from "date-fns";
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { type SpreadsheetCell, toCsv, toXlsx } from "~/server/spreadsheet";
+import {
+  buildVoyageOrderBy,
+  buildVoyageWhere,
+  voyageQuerySchema,
+} from "~/server/voyageQuery";
+import { formatInTimeZone } from "~/timezone";
+import { getLaneMetresUsed } from "~/utils";
+
+// The export contains every matching voyage, so paging does not apply
+const exportQuerySchema = voyageQuerySchema.extend({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+});
+
+const HEADER: SpreadsheetCell[] = [
+  "Voyage ID",
+  "Departure (UTC)",
+  "Departure (port local time)",
+  "Arrival (UTC)",
+  "Arrival (port local time)",
+  "Port of loading",
+  "Port of discharge",
+  "Vessel",
+  "Unit type IDs",
+  "Unit type count",
+  "Total default length (m)",
+];
+
+const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * @swagger
+ * /api/voyage/export:
+ *   get:
+ *     tags:
+ *       - Voyage
+ *     summary: Exports the voyage list as a spreadsheet
+ *     description: Returns every voyage matching the same filters and sorting as getAll, without paging, as a CSV or xlsx file. Departure and arrival are given in UTC and in the local time of the port of loading and port of discharge.
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [departure, arrival, portOfLoading, portOfDischarge, vessel, status]
+ *           default: departure
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: portOfLoading
+ *         description: ID of the port of loading.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: portOfDischarge
+ *         description: ID of the port of discharge.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vessel
+ *         description: ID of the vessel.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: unitType
+ *         description: ID of a unit type the voyage must include.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: Only voyages arriving at or after this date and time.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Only voyages departing at or before this date and time.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: search
+ *         description: Only voyages whose ID, port names or codes, or vessel name contain this text, ignoring case.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeDeleted
+ *         description: Set to true to include cancelled voyages, which are left out by default.
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: The voyages as a file download, with one header row.
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: The query parameters are invalid.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+    return;
+  }
+
+  const parsedQuery = exportQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    res.status(400).json({ error: parsedQuery.error.message });
+    return;
+  }
+
+  const query = parsedQuery.data;
+  const voyages = await prisma.voyage.findMany({
+    where: buildVoyageWhere(query),
+    orderBy: buildVoyageOrderBy(query),
+    include: {
+      vessel: {},
+      portOfLoading: {},
+      portOfDischarge: {},
+      unitTypes: {},
+    },
+  });
+
+  const rows = voyages.map((voyage): SpreadsheetCell[] => [
+    voyage.id,
+    voyage.scheduledDeparture.toISOString(),
+    formatInTimeZone(voyage.scheduledDeparture, voyage.portOfLoading.timezone),
+    voyage.scheduledArrival.toISOString(),
+    formatInTimeZone(voyage.scheduledArrival, voyage.portOfDischarge.timezone),
+    voyage.portOfLoading.name,
+    voyage.portOfDischarge.name,
+    voyage.vessel.name,
+    voyage.unitTypes.map((unitType) => unitType.id).join(";"),
+    voyage.unitTypes.length,
+    getLaneMetresUsed(voyage.unitTypes),
+  ]);
+
+  const fileName = `voyages-${format(new Date(), "yyyy-MM-dd")}.${query.format}`;
+  res.setHeader("Content-Type", CONTENT_TYPES[query.format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+  res
+    .status(200)
+    .send(
+      query.format === "xlsx"
+        ? toXlsx([HEADER, ...rows], "Voyages")
+        : toCsv([HEADER, ...rows]),
+    );
+};
+
+export default withFaultInjection(handler);
@@ -1,10 +1,26 @@
-import type { Vessel, Voyage, UnitType } from "@prisma/client";
-import type { NextApiHandler, NextApiResponse } from "next";
+import type { Booking, Port, Vessel, Voyage, UnitType } from "@prisma/client";
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import {
+  buildVoyageOrderBy,
+  buildVoyageWhere,
+  voyageQuerySchema,
+} from "~/server/voyageQuery";
 
-export type ReturnType = (Voyage & { vessel: Vessel } & {
+export type VoyageWithRelations = Voyage & { vessel: Vessel } & {
+  portOfLoading: Port;
+  portOfDischarge: Port;
   unitTypes: UnitType[];
-})[];
+  bookings: (Booking & { unitType: UnitType })[];
+};
+
+export type ReturnType = {
+  voyages: VoyageWithRelations[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
 
 /**
  * @swagger
@@ -12,78 +28,212 @@ export type ReturnType = (Voyage & { vessel: Vessel } & {
  *   get:
  *     tags:
  *       - Voyage
- *     summary: Retrieves all voyages
- *     description: Returns a list of all voyages, including details about the vessel and unit types associated with each voyage.
+ *     summary: Retrieves a page of voyages
+ *     description: Returns one page of voyages matching the given filters, including details about the vessel and unit types associated with each voyage, and the total number of matching voyages.
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         description: The page to return, starting at 1.
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         description: The number of voyages per page, at most 100.
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [departure, arrival, portOfLoading, portOfDischarge, vessel, status]
+ *           default: departure
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: portOfLoading
+ *         description: ID of the port of loading.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: portOfDischarge
+ *         description: ID of the port of discharge.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vessel
+ *         description: ID of the vessel.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: unitType
+ *         description: ID of a unit type the voyage must include.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: Only voyages arriving at or after this date and time.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Only voyages departing at or before this date and time.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: search
+ *         description: Only voyages whose ID, port names or codes, or vessel name contain this text, ignoring case.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeDeleted
+ *         description: Set to true to include cancelled voyages, which are hidden by default.
+ *         schema:
+ *           type: boolean
+ *           default: false
  *     responses:
  *       200:
- *         description: A list of voyages with their associated vessel and unit types.
+ *         description: A page of voyages with their associated vessel and unit types.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: string
- *                   portOfLoading:
- *                     type: string
- *                   portOfDischarge:
- *                     type: string
- *                   vesselId:
- *                     type: string
- *                   scheduledDeparture:
- *                     type: string
- *                     format: date-time
- *                   scheduledArrival:
- *                     type: string
- *                     format: date-time
- *                   createdAt:
- *                     type: string
- *                     format: date-time
- *                   updatedAt:
- *                     type: string
- *                     format: date-time
- *                   vessel:
+ *               type: object
+ *               properties:
+ *                 total:
+ *                   type: integer
+ *                   description: The number of voyages matching the filters, across all pages.
+ *                 page:
+ *                   type: integer
+ *                 pageSize:
+ *                   type: integer
+ *                 voyages:
+ *                   type: array
+ *                   items:
  *                     type: object
  *                     properties:
  *                       id:
  *                         type: string
- *                       name:
+ *                       portOfLoadingId:
+ *                         type: string
+ *                       portOfDischargeId:
+ *                         type: string
+ *                       vesselId:
+ *                         type: string
+ *                       scheduledDeparture:
+ *                         type: string
+ *                         format: date-time
+ *                       scheduledArrival:
+ *                         type: string
+ *                         format: date-time
+ *                       status:
  *                         type: string
+ *                         enum: [PLANNED, OPEN_FOR_BOOKING, CLOSED, DEPARTED, ARRIVED, CANCELLED]
+ *                       actualDeparture:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       actualArrival:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       deletedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                         description: When the voyage was cancelled.
+ *                       cancellationReason:
+ *                         type: string
+ *                         nullable: true
  *                       createdAt:
  *                         type: string
  *                         format: date-time
  *                       updatedAt:
  *                         type: string
  *                         format: date-time
- *                   unitTypes:
- *                     type: array
- *                     items:
- *                       type: object
- *                       properties:
- *                         id:
- *                           type: string
- *                         name:
- *                           type: string
- *                         defaultLength:
- *                           type: number
- *                         createdAt:
- *                           type: string
- *                           format: date-time
- *                         updatedAt:
- *                           type: string
- *                           format: date-time
+ *                       portOfLoading:
+ *                         $ref: '#/components/schemas/Port'
+ *                       portOfDischarge:
+ *                         $ref: '#/components/schemas/Port'
+ *                       vessel:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           laneMetreCapacity:
+ *                             type: number
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                           updatedAt:
+ *                             type: string
+ *                             format: date-time
+ *                       unitTypes:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                             name:
+ *                               type: string
+ *                             defaultLength:
+ *                               type: number
+ *                             createdAt:
+ *                               type: string
+ *                               format: date-time
+ *                             updatedAt:
+ *                               type: string
+ *                               format: date-time
+ *                       bookings:
+ *                         type: array
+ *                         description: The units booked on the voyage, each with its unit type, from which the lane metres in use are worked out.
+ *                         items:
+ *                           $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: One or more query parameters are invalid.
  */
-const handler: NextApiHandler = async (_, res: NextApiResponse<ReturnType>) => {
-  const voyages = await prisma.voyage.findMany({
-    include: {
-      vessel: {},
-      unitTypes: {},
-    },
-  });
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ReturnType | { error: string }>,
+) => {
+  const parsedQuery = voyageQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    res.status(400).json({ error: parsedQuery.error.message });
+    return;
+  }
+
+  const query = parsedQuery.data;
+  const where = buildVoyageWhere(query);
+
+  const [voyages, total] = await prisma.$transaction([
+    prisma.voyage.findMany({
+      where,
+      orderBy: buildVoyageOrderBy(query),
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+      include: {
+        vessel: {},
+        portOfLoading: {},
+        portOfDischarge: {},
+        unitTypes: {},
+        bookings: { include: { unitType: true } },
+      },
+    }),
+    prisma.voyage.count({ where }),
+  ]);
 
-  res.status(200).json(voyages);
+  res
+    .status(200)
+    .json({ voyages, total, page: query.page, pageSize: query.pageSize });
 };
 
-export default handler;
+export default withFaultInjection(handler);
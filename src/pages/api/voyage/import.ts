@@ -0,0 +1,121 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import { checkImportedVoyages, type ImportedRow } from "~/server/voyageImport";
+import { voyageImportSchema } from "~/schemas/voyageImport";
+
+export type ReturnType = {
+  rows: (ImportedRow & { id?: string })[];
+  valid: number;
+  invalid: number;
+};
+
+/**
+ * @swagger
+ * /api/voyage/import:
+ *   post:
+ *     tags: [Voyage]
+ *     summary: Imports voyages from CSV
+ *     description: Parses the CSV and checks every row like a new voyage, including double bookings between the rows. The header row names the columns departure, arrival, portOfLoading, portOfDischarge, vessel and unitTypes, or the headers of the voyage export. Ports can be given by ID, UN/LOCODE or name, vessels by ID or name, and unit types by ID, separated by semicolons. Departure and arrival without a time zone are read as the local time of the port of loading and port of discharge. With dryRun the rows are only checked; otherwise all of them are created in a single transaction, and nothing is created when any row is invalid.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - csv
+ *             properties:
+ *               csv:
+ *                 type: string
+ *                 description: The CSV file, with a header row and at most 500 voyages.
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Only check the rows, without creating any voyage.
+ *     responses:
+ *       200:
+ *         description: Dry run finished. Every row is returned with its resolved ports, vessel and unit types, and its errors per field if it is invalid.
+ *       201:
+ *         description: All voyages were created. Every row is returned with the ID of its voyage.
+ *       400:
+ *         description: The request body or the CSV as a whole is invalid, or some rows are invalid. Invalid rows are returned with their errors per field, and nothing is created.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       500:
+ *         description: Internal server error, indicates failure to create the voyages. None of them were created.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const data = parseRequestBody(voyageImportSchema, req.body, res);
+    if (!data) return;
+
+    const result = await checkImportedVoyages(data.csv);
+    if ("formErrors" in result) {
+      sendValidationError(res, {}, result.formErrors);
+      return;
+    }
+
+    const { rows, voyages } = result;
+    const invalid = rows.length - voyages.length;
+    const response: ReturnType = { rows, valid: voyages.length, invalid };
+
+    if (data.dryRun) {
+      res.status(200).json(response);
+      return;
+    }
+
+    if (invalid > 0) {
+      res.status(400).json({
+        error: "Validation failed",
+        fieldErrors: {},
+        formErrors: [`${invalid} of ${rows.length} rows are invalid`],
+        ...response,
+      });
+      return;
+    }
+
+    try {
+      const createdVoyages = await prisma.$transaction(
+        voyages.map((voyage) =>
+          prisma.voyage.create({
+            data: {
+              scheduledDeparture: voyage.departure,
+              scheduledArrival: voyage.arrival,
+              portOfLoadingId: voyage.portOfLoading,
+              portOfDischargeId: voyage.portOfDischarge,
+              vesselId: voyage.vessel,
+              unitTypes: {
+                connect: voyage.unitTypes.map((id) => ({ id })),
+              },
+            },
+          }),
+        ),
+      );
+
+      res.status(201).json({
+        ...response,
+        rows: rows.map((row, index) => ({
+          ...row,
+          id: createdVoyages[index]?.id,
+        })),
+      });
+    } catch (error) {
+      console.error("Error importing voyages:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
@@ -0,0 +1,80 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import {
+  findConflictingVoyages,
+  sendVesselConflict,
+} from "~/server/vesselAvailability";
+
+/**
+ * @swagger
+ * /api/voyage/restore:
+ *   post:
+ *     tags: [Voyage]
+ *     summary: Restores a cancelled voyage
+ *     description: Undoes the cancellation of a voyage, so it shows up in the voyage list again with the status it had before it was cancelled. The vessel must still be free for the schedule of the voyage.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage to restore.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The restored voyage.
+ *       404:
+ *         description: The voyage with the specified ID was not found, or is not cancelled.
+ *       409:
+ *         description: The vessel has been booked for another voyage that overlaps this one in the meantime. The conflicting voyages are listed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VesselConflict'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "POST") {
+    const id = req.query.id as string;
+
+    const voyage = await prisma.voyage.findFirst({
+      where: { id, deletedAt: { not: null } },
+    });
+    if (!voyage) {
+      res.status(404).json({ error: "Cancelled voyage not found" });
+      return;
+    }
+
+    const conflicts = await findConflictingVoyages(
+      voyage.vesselId,
+      voyage.scheduledDeparture,
+      voyage.scheduledArrival,
+      id,
+    );
+    if (conflicts.length > 0) {
+      sendVesselConflict(res, conflicts);
+      return;
+    }
+
+    const restoredVoyage = await prisma.voyage.update({
+      where: { id },
+      data: {
+        // Voyages cancelled before their status was remembered keep the status they have
+        status: voyage.statusBeforeCancellation ?? voyage.status,
+        statusBeforeCancellation: null,
+        deletedAt: null,
+        cancellationReason: null,
+      },
+    });
+    res.status(200).json(restoredVoyage);
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
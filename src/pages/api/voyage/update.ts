@@ -0,0 +1,202 @@
+import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
+import { prisma } from "~/server/db";
+import { withFaultInjection } from "~/server/faultInjection";
+import { parseRequestBody, sendValidationError } from "~/server/validation";
+import {
+  findVoyageProblem,
+  getSailedVoyageErrors,
+  mergeVoyageChange,
+  sendVoyageProblem,
+} from "~/server/voyageChecks";
+import { voyageFieldsSchema, voyageSchema } from "~/schemas/voyage";
+
+/**
+ * @swagger
+ * /api/voyage/update:
+ *   put:
+ *     tags: [Voyage]
+ *     summary: Replaces an existing voyage
+ *     description: Updates every field of a voyage, keeping its ID. The unit types of the voyage are replaced by the given list.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VoyageUpdate'
+ *     responses:
+ *       200:
+ *         description: Voyage updated successfully.
+ *       400:
+ *         description: The request body is invalid or incomplete, there is no route between the ports, the vessel is not allowed on it, a unit type does not exist, the change would invalidate the bookings of the voyage, or it changes the schedule or vessel of a voyage that has departed or arrived. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The voyage with the specified ID was not found, or is cancelled.
+ *       409:
+ *         description: The vessel is already booked for a voyage that overlaps this one, including turnaround time. The conflicting voyages are listed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VesselConflict'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       500:
+ *         description: Internal server error, indicates failure to update the voyage.
+ *   patch:
+ *     tags: [Voyage]
+ *     summary: Partially updates an existing voyage
+ *     description: Updates only the fields present in the request body. When unitTypes is given, the unit types of the voyage are replaced by the given list.
+ *     parameters:
+ *       - in: query
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VoyageUpdate'
+ *     responses:
+ *       200:
+ *         description: Voyage updated successfully.
+ *       400:
+ *         description: The request body is invalid, there is no route between the ports, the vessel is not allowed on it, a unit type does not exist, the change would invalidate the bookings of the voyage, or it changes the schedule or vessel of a voyage that has departed or arrived. The errors are listed per field.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The voyage with the specified ID was not found, or is cancelled.
+ *       409:
+ *         description: The vessel is already booked for a voyage that overlaps this one, including turnaround time. The conflicting voyages are listed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VesselConflict'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       500:
+ *         description: Internal server error, indicates failure to update the voyage.
+ * components:
+ *   schemas:
+ *     VoyageUpdate:
+ *       type: object
+ *       properties:
+ *         departure:
+ *           type: string
+ *           format: date-time
+ *           description: Scheduled departure date and time.
+ *         arrival:
+ *           type: string
+ *           format: date-time
+ *           description: Scheduled arrival date and time.
+ *         portOfLoading:
+ *           type: string
+ *           description: ID of the port where the voyage starts.
+ *         portOfDischarge:
+ *           type: string
+ *           description: ID of the port where the voyage ends.
+ *         vessel:
+ *           type: string
+ *           description: ID of the vessel used for the voyage.
+ *         unitTypes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Array of unit type IDs that replaces the current unit types of the voyage.
+ */
+const handler: NextApiHandler = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  if (req.method === "PUT" || req.method === "PATCH") {
+    const id = req.query.id as string;
+    const data = parseRequestBody(
+      req.method === "PUT" ? voyageSchema : voyageFieldsSchema.partial(),
+      req.body,
+      res,
+    );
+    if (!data) return;
+
+    const {
+      departure,
+      arrival,
+      portOfLoading,
+      portOfDischarge,
+      vessel,
+      unitTypes,
+    } = data;
+
+    // Cancelled voyages have to be restored before they can be changed
+    const existingVoyage = await prisma.voyage.findFirst({
+      where: { id, deletedAt: null },
+      include: { unitTypes: { select: { id: true } } },
+    });
+    if (!existingVoyage) {
+      res.status(404).json({ error: "Voyage not found" });
+      return;
+    }
+
+    const sailedErrors = getSailedVoyageErrors(existingVoyage, data);
+    if (sailedErrors) {
+      sendValidationError(res, sailedErrors);
+      return;
+    }
+
+    // A partial update is checked against the current schedule, ports and vessel of the voyage
+    const problem = await findVoyageProblem(
+      mergeVoyageChange(existingVoyage, data),
+      {
+        excludeVoyageId: id,
+        checkBookings: vessel !== undefined || unitTypes !== undefined,
+      },
+    );
+    if (problem) {
+      sendVoyageProblem(res, problem);
+      return;
+    }
+
+    try {
+      const updatedVoyage = await prisma.voyage.update({
+        where: { id },
+        data: {
+          scheduledDeparture: departure,
+          scheduledArrival: arrival,
+          portOfLoadingId: portOfLoading,
+          portOfDischargeId: portOfDischarge,
+          vesselId: vessel,
+          // `set` replaces the whole relation, so unit types missing from the list are disconnected
+          unitTypes: unitTypes
+            ? {
+                set: unitTypes.map((unitTypeId) => ({
+                  id: unitTypeId,
+                })),
+              }
+            : undefined,
+        },
+      });
+
+      res.status(200).json(updatedVoyage);
+    } catch (error) {
+      console.error("Error updating voyage:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  } else {
+    res.setHeader("Allow", ["PUT", "PATCH"]);
+    res.status(405).end(`Method ${req.method} not allowed`);
+  }
+};
+
+export default withFaultInjection(handler);
@@ -1,5 +1,5 @@
-import { format } from "date-fns";
 import Head from "next/head";
+import Link from "next/link";
 import Layout from "~/components/layout";
 import {
   Table,
@@ -9,10 +9,16 @@ import {
   TableHeader,
   TableRow,
 } from "~/components/ui/table";
-import { fetchData } from "~/utils";
-import type { ReturnType } from "./api/voyage/getAll";
+import {
+  assertResponseOk,
+  fetchData,
+  formatDelay,
+  getDelayMinutes,
+  getLaneMetresBooked,
+} from "~/utils";
+import type { ReturnType, VoyageWithRelations } from "./api/voyage/getAll";
 import { Button } from "~/components/ui/button";
-import { TABLE_DATE_FORMAT } from "~/constants";
+import { UNDO_DELETE_WINDOW_MS } from "~/constants";
 import {
   Sheet,
   SheetTrigger,
@@ -23,9 +29,33 @@ import {
   SheetFooter,
   SheetClose,
 } from "~/components/ui/sheet";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import CreateVoyageForm from "~/components/createVoyageForm";
+import {
+  formatPortTime,
+  MyTimeToggle,
+  useShowMyTime,
+} from "~/components/portTime";
+import { UtilisationBar } from "~/components/utilisationBar";
+import { VoyageBulkActions } from "~/components/voyageBulkActions";
+import { VoyageImportDialog } from "~/components/voyageImportDialog";
+import { VoyageCalendar } from "~/components/voyageCalendar";
+import {
+  getVoyageQueryParams,
+  PAGE_SIZES,
+  useVoyageTableState,
+  VoyageFilterBar,
+  type VoyageColumn,
+} from "~/components/voyageFilterBar";
+import { VoyageStatusBadge } from "~/components/voyageStatusBadge";
+import { ToastAction } from "~/components/ui/toast";
 import { useToast } from "~/components/ui/use-toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
 import {
   Popover,
   PopoverContent,
@@ -33,13 +63,84 @@ import {
 } from "~/components/ui/popover";
 import {
   InvalidateQueryFilters,
+  keepPreviousData,
   useMutation,
   useQuery,
   useQueryClient,
 } from "@tanstack/react-query";
+import type { VoyageQuery } from "~/server/voyageQuery";
+import { canTransition } from "~/schemas/voyageStatus";
+
+type SortField = VoyageQuery["sortBy"];
+type SortOrder = VoyageQuery["sortOrder"];
+type HomeView = "table" | "calendar";
+
+/**
+ * Cancels a voyage on the server.
+ */
+async function deleteVoyage(voyageId: string) {
+  const response = await fetch(`/api/voyage/delete?id=${voyageId}`, {
+    method: "DELETE",
+  });
+
+  await assertResponseOk(response, "Failed to delete the voyage");
+}
+
+interface SortableTableHeadProps {
+  label: string;
+  field: SortField;
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  onSort: (field: SortField) => void;
+}
+
+/**
+ * Table header that sorts the voyages by its field when clicked, and shows the current sort direction.
+ */
+function SortableTableHead({
+  label,
+  field,
+  sortBy,
+  sortOrder,
+  onSort,
+}: SortableTableHeadProps) {
+  const isActive = sortBy === field;
+  return (
+    <TableHead aria-sort={isActive ? `${sortOrder}ending` : "none"}>
+      <Button variant="ghost" onClick={() => onSort(field)}>
+        {label}
+        {isActive && (sortOrder === "asc" ? " ↑" : " ↓")}
+      </Button>
+    </TableHead>
+  );
+}
+
+/**
+ * Delay of a voyage against its schedule, highlighted when the voyage is late.
+ */
+function VoyageDelay({ voyage }: { voyage: VoyageWithRelations }) {
+  const delayMinutes = voyage.deletedAt ? null : getDelayMinutes(voyage);
+  if (delayMinutes === null) return <span>-</span>;
+  return (
+    <span className={delayMinutes > 0 ? "text-red-500" : undefined}>
+      {formatDelay(delayMinutes)}
+    </span>
+  );
+}
 
 export default function Home() {
   const [isSheetOpen, setSheetOpen] = useState(false);
+  // Departure picked in the calendar
+  const [initialDeparture, setInitialDeparture] = useState<Date>();
+  const [view, setView] = useState<HomeView>("table");
+  const [editingVoyage, setEditingVoyage] =
+    useState<VoyageWithRelations | null>(null);
+  const [tableState, updateTableState, isTableStateReady] =
+    useVoyageTableState();
+  const { page, pageSize, sortBy, sortOrder } = tableState;
+  const showCancelled = tableState.includeDeleted;
+  const [showMyTime, setShowMyTime] = useShowMyTime();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const { toast } = useToast();
 
   const queryClient = useQueryClient();
@@ -55,41 +156,177 @@ export default function Home() {
     console.log("Voyages query invalidated");
   };
 
-  const { data: voyages } = useQuery<ReturnType>({
-    queryKey: ["voyages"],
-    queryFn: () => fetchData("voyage/getAll"),
+  const handleCreateAt = (departure: Date) => {
+    setInitialDeparture(departure);
+    setSheetOpen(true);
+  };
+
+  const handleEditSuccess = () => {
+    toast({
+      title: "Voyage updated successfully!",
+      description: "The changes have been saved.",
+    });
+    setEditingVoyage(null);
+    void queryClient.invalidateQueries(["voyages"] as InvalidateQueryFilters);
+  };
+
+  // The export uses the same filters and sorting as the table, without paging
+  const exportParams = getVoyageQueryParams(tableState);
+  const searchParams = new URLSearchParams(exportParams);
+  searchParams.set("page", String(page));
+  searchParams.set("pageSize", String(pageSize));
+
+  const { data } = useQuery<ReturnType>({
+    queryKey: ["voyages", searchParams.toString()],
+    queryFn: () => fetchData(`voyage/getAll?${searchParams.toString()}`),
+    placeholderData: keepPreviousData,
+    // The filters in the query string are only known once the router is ready
+    enabled: isTableStateReady,
   });
+  // Deletions waiting for their undo window to pass, by voyage ID
+  const pendingDeletions = useRef(new Map<string, number>());
+  // Voyages waiting to be deleted stay hidden, also when a refetch brings them back before the deletion is committed
+  const [pendingDeletionIds, setPendingDeletionIds] = useState<string[]>([]);
+  const voyages = data?.voyages.filter(
+    (voyage) => !pendingDeletionIds.includes(voyage.id),
+  );
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / pageSize)) : 1;
+
+  const isShown = (column: VoyageColumn) => !tableState.hidden.includes(column);
+
+  // Only voyages on the current page that are not cancelled can be selected
+  const selectableVoyages =
+    voyages?.filter((voyage) => voyage.deletedAt === null) ?? [];
+  const selectedVoyages = selectableVoyages.filter((voyage) =>
+    selectedIds.includes(voyage.id),
+  );
+  const isPageSelected =
+    selectableVoyages.length > 0 &&
+    selectedVoyages.length === selectableVoyages.length;
+
+  const toggleSelected = (voyageId: string, isSelected: boolean) => {
+    setSelectedIds((ids) =>
+      isSelected ? [...ids, voyageId] : ids.filter((id) => id !== voyageId),
+    );
+  };
+
+  const handleSort = (field: SortField) => {
+    updateTableState({
+      sortBy: field,
+      sortOrder: field === sortBy && sortOrder === "asc" ? "desc" : "asc",
+    });
+  };
 
   const mutation = useMutation({
+    mutationFn: deleteVoyage,
+    onSettled: async () => {
+      await queryClient.invalidateQueries([
+        "voyages",
+      ] as InvalidateQueryFilters);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete voyage",
+        description: error.message,
+        variant: "destructive",
+      });
+      console.error("Error deleting voyage:", error);
+    },
+  });
+
+  // Deletions still in their undo window are committed when leaving the page, instead of being lost
+  useEffect(() => {
+    const timers = pendingDeletions.current;
+    return () => {
+      timers.forEach((timer, voyageId) => {
+        window.clearTimeout(timer);
+        deleteVoyage(voyageId).catch((error) =>
+          console.error("Error deleting voyage:", error),
+        );
+      });
+    };
+  }, []);
+
+  const handleDelete = async (voyage: VoyageWithRelations) => {
+    // Removing the row from every cached page right away, keeping the pages to put back on undo or failure
+    await queryClient.cancelQueries({ queryKey: ["voyages"] });
+    const previousPages = queryClient.getQueriesData<ReturnType>({
+      queryKey: ["voyages"],
+    });
+    queryClient.setQueriesData<ReturnType>(
+      { queryKey: ["voyages"] },
+      (page) =>
+        page && {
+          ...page,
+          voyages: page.voyages.filter(({ id }) => id !== voyage.id),
+          total: page.total - 1,
+        },
+    );
+    const restorePages = () => {
+      previousPages.forEach(([queryKey, page]) =>
+        queryClient.setQueryData(queryKey, page),
+      );
+    };
+    const showVoyage = () => {
+      setPendingDeletionIds((ids) => ids.filter((id) => id !== voyage.id));
+    };
+
+    const timer = window.setTimeout(() => {
+      pendingDeletions.current.delete(voyage.id);
+      // Each deletion handles its own outcome, since the callbacks given to `mutate` only reach the latest call
+      void mutation
+        .mutateAsync(voyage.id)
+        .catch(restorePages)
+        .finally(showVoyage);
+    }, UNDO_DELETE_WINDOW_MS);
+    pendingDeletions.current.set(voyage.id, timer);
+    setPendingDeletionIds((ids) => [...ids, voyage.id]);
+
+    const handleUndo = () => {
+      window.clearTimeout(timer);
+      pendingDeletions.current.delete(voyage.id);
+      restorePages();
+      showVoyage();
+    };
+
+    toast({
+      title: "Voyage deleted",
+      description: `${voyage.portOfLoading.name} → ${voyage.portOfDischarge.name} on ${formatPortTime(voyage.scheduledDeparture, voyage.portOfLoading.timezone, showMyTime)}`,
+      duration: UNDO_DELETE_WINDOW_MS,
+      action: (
+        <ToastAction altText="Undo deleting the voyage" onClick={handleUndo}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const restoreMutation = useMutation({
     mutationFn: async (voyageId: string) => {
-      const response = await fetch(`/api/voyage/delete?id=${voyageId}`, {
-        method: "DELETE",
+      const response = await fetch(`/api/voyage/restore?id=${voyageId}`, {
+        method: "POST",
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to delete the voyage");
-      }
+      await assertResponseOk(response, "Failed to restore the voyage");
     },
     onSuccess: async () => {
+      toast({
+        title: "Voyage restored successfully!",
+        description: "The voyage is no longer cancelled.",
+      });
       await queryClient.invalidateQueries([
         "voyages",
       ] as InvalidateQueryFilters);
-      console.log("Voyage deleted and query invalidated");
     },
     onError: (error: Error) => {
       toast({
-        title: "Failed to delete voyage",
+        title: "Failed to restore voyage",
         description: error.message,
         variant: "destructive",
       });
-      console.error("Error deleting voyage:", error);
     },
   });
 
-  const handleDelete = (voyageId: string) => {
-    mutation.mutate(voyageId);
-  };
-
   return (
     <>
       <Head>
@@ -97,106 +334,400 @@ export default function Home() {
         <link rel="icon" href="/favicon.ico" />
       </Head>
       <Layout>
-        <Sheet open={isSheetOpen} onOpenChange={setSheetOpen}>
-          <SheetTrigger asChild>
-            <Button variant="outline" onClick={() => setSheetOpen(true)}>
-              Create
+        <div className="flex items-center gap-4">
+          <Sheet open={isSheetOpen} onOpenChange={setSheetOpen}>
+            <SheetTrigger asChild>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setInitialDeparture(undefined);
+                  setSheetOpen(true);
+                }}
+              >
+                Create
+              </Button>
+            </SheetTrigger>
+            <SheetContent>
+              <SheetHeader>
+                <SheetTitle>Create Voyage</SheetTitle>
+                <SheetDescription>
+                  Fill in the details to create a new voyage. Click save when
+                  you're done.
+                </SheetDescription>
+              </SheetHeader>
+              <div className="grid gap-4 py-4">
+                <CreateVoyageForm
+                  key={initialDeparture?.toISOString()}
+                  initialDeparture={initialDeparture}
+                  onSuccess={handleCreateSuccess}
+                />
+              </div>
+              <SheetFooter>
+                <SheetClose asChild>
+                  <Button variant="outline" onClick={() => setSheetOpen(false)}>
+                    Cancel
+                  </Button>
+                </SheetClose>
+              </SheetFooter>
+            </SheetContent>
+          </Sheet>
+          <VoyageImportDialog />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">Export</Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem asChild>
+                <a
+                  href={`/api/voyage/export?format=csv&${exportParams.toString()}`}
+                >
+                  CSV
+                </a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a
+                  href={`/api/voyage/export?format=xlsx&${exportParams.toString()}`}
+                >
+                  Excel (xlsx)
+                </a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={showCancelled}
+              onChange={(event) =>
+                updateTableState({ includeDeleted: event.target.checked })
+              }
+            />
+            Show cancelled
+          </label>
+          <MyTimeToggle showMyTime={showMyTime} setShowMyTime={setShowMyTime} />
+          <div className="ml-auto flex gap-2">
+            <Button
+              variant={view === "table" ? "default" : "outline"}
+              onClick={() => setView("table")}
+            >
+              Table
+            </Button>
+            <Button
+              variant={view === "calendar" ? "default" : "outline"}
+              onClick={() => setView("calendar")}
+            >
+              Calendar
             </Button>
-          </SheetTrigger>
+          </div>
+        </div>
+        {view === "table" && selectedVoyages.length > 0 && (
+          <VoyageBulkActions
+            voyages={selectedVoyages}
+            showMyTime={showMyTime}
+            onComplete={() => setSelectedIds([])}
+          />
+        )}
+        <Sheet
+          open={editingVoyage !== null}
+          onOpenChange={(open) => !open && setEditingVoyage(null)}
+        >
           <SheetContent>
             <SheetHeader>
-              <SheetTitle>Create Voyage</SheetTitle>
+              <SheetTitle>Edit Voyage</SheetTitle>
               <SheetDescription>
-                Fill in the details to create a new voyage. Click save when
-                you're done.
+                Change the details of the voyage. Click save when you&apos;re
+                done.
               </SheetDescription>
             </SheetHeader>
             <div className="grid gap-4 py-4">
-              <CreateVoyageForm onSuccess={handleCreateSuccess} />
+              {editingVoyage && (
+                <CreateVoyageForm
+                  key={editingVoyage.id}
+                  voyage={editingVoyage}
+                  onSuccess={handleEditSuccess}
+                />
+              )}
             </div>
             <SheetFooter>
               <SheetClose asChild>
-                <Button variant="outline" onClick={() => setSheetOpen(false)}>
-                  Cancel
-                </Button>
+                <Button variant="outline">Cancel</Button>
               </SheetClose>
             </SheetFooter>
           </SheetContent>
         </Sheet>
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Departure</TableHead>
-              <TableHead>Arrival</TableHead>
-              <TableHead>Port of loading</TableHead>
-              <TableHead>Port of discharge</TableHead>
-              <TableHead>Vessel</TableHead>
-              <TableHead>Unit Types</TableHead>
-              <TableHead>&nbsp;</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {voyages?.map((voyage) => (
-              <TableRow key={voyage.id}>
-                <TableCell>
-                  {format(
-                    new Date(voyage.scheduledDeparture),
-                    TABLE_DATE_FORMAT,
+        {view === "calendar" ? (
+          <VoyageCalendar
+            showCancelled={showCancelled}
+            showMyTime={showMyTime}
+            onCreate={handleCreateAt}
+          />
+        ) : (
+          <>
+            <VoyageFilterBar state={tableState} onChange={updateTableState} />
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    <input
+                      type="checkbox"
+                      aria-label="Select all voyages on this page"
+                      checked={isPageSelected}
+                      onChange={(event) =>
+                        setSelectedIds(
+                          event.target.checked
+                            ? selectableVoyages.map((voyage) => voyage.id)
+                            : [],
+                        )
+                      }
+                    />
+                  </TableHead>
+                  {isShown("departure") && (
+                    <SortableTableHead
+                      label="Departure"
+                      field="departure"
+                      sortBy={sortBy}
+                      sortOrder={sortOrder}
+                      onSort={handleSort}
+                    />
+                  )}
+                  {isShown("arrival") && (
+                    <SortableTableHead
+                      label="Arrival"
+                      field="arrival"
+                      sortBy={sortBy}
+                      sortOrder={sortOrder}
+                      onSort={handleSort}
+                    />
+                  )}
+                  {isShown("portOfLoading") && (
+                    <SortableTableHead
+                      label="Port of loading"
+                      field="portOfLoading"
+                      sortBy={sortBy}
+                      sortOrder={sortOrder}
+                      onSort={handleSort}
+                    />
+                  )}
+                  {isShown("portOfDischarge") && (
+                    <SortableTableHead
+                      label="Port of discharge"
+                      field="portOfDischarge"
+                      sortBy={sortBy}
+                      sortOrder={sortOrder}
+                      onSort={handleSort}
+                    />
                   )}
-                </TableCell>
-                <TableCell>
-                  {format(new Date(voyage.scheduledArrival), TABLE_DATE_FORMAT)}
-                </TableCell>
-                <TableCell>{voyage.portOfLoading}</TableCell>
-                <TableCell>{voyage.portOfDischarge}</TableCell>
-                <TableCell>{voyage.vessel.name}</TableCell>
-                <TableCell>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button variant="ghost">{voyage.unitTypes.length}</Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-80">
-                      <div className="space-y-2">
-                        <h4 className="font-medium leading-none">Unit Types</h4>
-                        <p className="text-sm text-muted-foreground">
-                          List of unit types for this voyage:
-                        </p>
-                      </div>
-                      <div className="overflow-x-auto">
-                        <table className="min-w-full divide-y divide-gray-200">
-                          <thead>
-                            <tr>
-                              <th className="px-4 py-2">Name</th>
-                              <th className="px-4 py-2">Default Length</th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {voyage.unitTypes.map((unitType) => (
-                              <tr key={unitType.id}>
-                                <td className="px-4 py-2">{unitType.name}</td>
-                                <td className="px-4 py-2">
-                                  {unitType.defaultLength}
-                                </td>
-                              </tr>
-                            ))}
-                          </tbody>
-                        </table>
-                      </div>
-                    </PopoverContent>
-                  </Popover>
-                </TableCell>
-                <TableCell>
-                  <Button
-                    onClick={() => handleDelete(voyage.id)}
-                    variant="outline"
+                  {isShown("vessel") && (
+                    <SortableTableHead
+                      label="Vessel"
+                      field="vessel"
+                      sortBy={sortBy}
+                      sortOrder={sortOrder}
+                      onSort={handleSort}
+                    />
+                  )}
+                  {isShown("status") && (
+                    <SortableTableHead
+                      label="Status"
+                      field="status"
+                      sortBy={sortBy}
+                      sortOrder={sortOrder}
+                      onSort={handleSort}
+                    />
+                  )}
+                  {isShown("delay") && <TableHead>Delay</TableHead>}
+                  {isShown("unitTypes") && <TableHead>Unit Types</TableHead>}
+                  {isShown("utilisation") && <TableHead>Utilisation</TableHead>}
+                  <TableHead>&nbsp;</TableHead>
+                  <TableHead>&nbsp;</TableHead>
+                  <TableHead>&nbsp;</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {voyages?.map((voyage) => (
+                  <TableRow
+                    key={voyage.id}
+                    className={voyage.deletedAt ? "opacity-60" : undefined}
                   >
-                    X
-                  </Button>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        aria-label="Select voyage"
+                        disabled={voyage.deletedAt !== null}
+                        checked={selectedIds.includes(voyage.id)}
+                        onChange={(event) =>
+                          toggleSelected(voyage.id, event.target.checked)
+                        }
+                      />
+                    </TableCell>
+                    {isShown("departure") && (
+                      <TableCell>
+                        {formatPortTime(
+                          voyage.scheduledDeparture,
+                          voyage.portOfLoading.timezone,
+                          showMyTime,
+                        )}
+                      </TableCell>
+                    )}
+                    {isShown("arrival") && (
+                      <TableCell>
+                        {formatPortTime(
+                          voyage.scheduledArrival,
+                          voyage.portOfDischarge.timezone,
+                          showMyTime,
+                        )}
+                      </TableCell>
+                    )}
+                    {isShown("portOfLoading") && (
+                      <TableCell>{voyage.portOfLoading.name}</TableCell>
+                    )}
+                    {isShown("portOfDischarge") && (
+                      <TableCell>{voyage.portOfDischarge.name}</TableCell>
+                    )}
+                    {isShown("vessel") && (
+                      <TableCell>{voyage.vessel.name}</TableCell>
+                    )}
+                    {isShown("status") && (
+                      <TableCell title={voyage.cancellationReason ?? undefined}>
+                        <VoyageStatusBadge status={voyage.status} />
+                      </TableCell>
+                    )}
+                    {isShown("delay") && (
+                      <TableCell>
+                        <VoyageDelay voyage={voyage} />
+                      </TableCell>
+                    )}
+                    {isShown("unitTypes") && (
+                      <TableCell>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button variant="ghost">
+                              {voyage.unitTypes.length}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-80">
+                            <div className="space-y-2">
+                              <h4 className="font-medium leading-none">
+                                Unit Types
+                              </h4>
+                              <p className="text-sm text-muted-foreground">
+                                List of unit types for this voyage:
+                              </p>
+                            </div>
+                            <div className="overflow-x-auto">
+                              <table className="min-w-full divide-y divide-gray-200">
+                                <thead>
+                                  <tr>
+                                    <th className="px-4 py-2">Name</th>
+                                    <th className="px-4 py-2">
+                                      Default Length
+                                    </th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {voyage.unitTypes.map((unitType) => (
+                                    <tr key={unitType.id}>
+                                      <td className="px-4 py-2">
+                                        {unitType.name}
+                                      </td>
+                                      <td className="px-4 py-2">
+                                        {unitType.defaultLength}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          </PopoverContent>
+                        </Popover>
+                      </TableCell>
+                    )}
+                    {isShown("utilisation") && (
+                      <TableCell>
+                        <UtilisationBar
+                          laneMetresUsed={getLaneMetresBooked(voyage.bookings)}
+                          laneMetreCapacity={voyage.vessel.laneMetreCapacity}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <Button variant="outline" asChild>
+                        <Link href={`/voyages/${voyage.id}`}>View</Link>
+                      </Button>
+                    </TableCell>
+                    {voyage.deletedAt ? (
+                      <TableCell colSpan={2}>
+                        <Button
+                          onClick={() => restoreMutation.mutate(voyage.id)}
+                          variant="outline"
+                        >
+                          Restore
+                        </Button>
+                      </TableCell>
+                    ) : (
+                      <>
+                        <TableCell>
+                          <Button
+                            onClick={() => setEditingVoyage(voyage)}
+                            variant="outline"
+                          >
+                            Edit
+                          </Button>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            onClick={() => void handleDelete(voyage)}
+                            variant="outline"
+                            // Voyages can only be cancelled until they depart
+                            disabled={
+                              !canTransition(voyage.status, "CANCELLED")
+                            }
+                          >
+                            X
+                          </Button>
+                        </TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex items-center justify-end gap-4 py-4">
+              <label className="flex items-center gap-2 text-sm">
+                Rows per page
+                <select
+                  className="h-9 rounded-md border border-input bg-transparent px-2"
+                  value={pageSize}
+                  onChange={(event) =>
+                    updateTableState({ pageSize: Number(event.target.value) })
+                  }
+                >
+                  {PAGE_SIZES.map((size) => (
+                    <option key={size} value={size}>
+                      {size}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span className="text-sm text-muted-foreground">
+                {data?.total ?? 0} voyages · Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => updateTableState({ page: page - 1 })}
+                disabled={page <= 1}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => updateTableState({ page: page + 1 })}
+                disabled={page >= pageCount}
+              >
+                Next
+              </Button>
+            </div>
+          </>
+        )}
       </Layout>
     </>
   );
@@ -0,0 +1,194 @@
+import {
+  type InvalidateQueryFilters,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import Head from "next/head";
+import { useState } from "react";
+import Layout from "~/components/layout";
+import RouteForm from "~/components/routeForm";
+import { Button } from "~/components/ui/button";
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "~/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import { assertResponseOk, fetchData } from "~/utils";
+import type {
+  ReturnType as RoutesType,
+  RouteWithRelations,
+} from "./api/route/getAll";
+
+export default function Routes() {
+  const [isSheetOpen, setSheetOpen] = useState(false);
+  const [editingRoute, setEditingRoute] = useState<RouteWithRelations | null>(
+    null,
+  );
+  const { toast } = useToast();
+
+  const queryClient = useQueryClient();
+
+  const { data: routes } = useQuery<RoutesType>({
+    queryKey: ["routes"],
+    queryFn: () => fetchData("route/getAll"),
+  });
+
+  const handleCreateSuccess = () => {
+    toast({
+      title: "Route created successfully!",
+      description: "Voyages can now be planned between its ports.",
+    });
+    setSheetOpen(false);
+    void queryClient.invalidateQueries(["routes"] as InvalidateQueryFilters);
+  };
+
+  const handleEditSuccess = () => {
+    toast({
+      title: "Route updated successfully!",
+      description: "The changes have been saved.",
+    });
+    setEditingRoute(null);
+    void queryClient.invalidateQueries(["routes"] as InvalidateQueryFilters);
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (routeId: string) => {
+      const response = await fetch(`/api/route/delete?id=${routeId}`, {
+        method: "DELETE",
+      });
+
+      await assertResponseOk(response, "Failed to delete the route");
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries(["routes"] as InvalidateQueryFilters);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete route",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Head>
+        <title>Routes | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <Sheet open={isSheetOpen} onOpenChange={setSheetOpen}>
+          <SheetTrigger asChild>
+            <Button variant="outline">Create</Button>
+          </SheetTrigger>
+          <SheetContent>
+            <SheetHeader>
+              <SheetTitle>Create Route</SheetTitle>
+              <SheetDescription>
+                Fill in the details to create a new route. Click save when
+                you&apos;re done.
+              </SheetDescription>
+            </SheetHeader>
+            <div className="grid gap-4 py-4">
+              <RouteForm onSuccess={handleCreateSuccess} />
+            </div>
+            <SheetFooter>
+              <SheetClose asChild>
+                <Button variant="outline">Cancel</Button>
+              </SheetClose>
+            </SheetFooter>
+          </SheetContent>
+        </Sheet>
+        <Sheet
+          open={editingRoute !== null}
+          onOpenChange={(open) => !open && setEditingRoute(null)}
+        >
+          <SheetContent>
+            <SheetHeader>
+              <SheetTitle>Edit Route</SheetTitle>
+              <SheetDescription>
+                Change the details of the route. Click save when you&apos;re
+                done.
+              </SheetDescription>
+            </SheetHeader>
+            <div className="grid gap-4 py-4">
+              {editingRoute && (
+                <RouteForm
+                  key={editingRoute.id}
+                  route={editingRoute}
+                  onSuccess={handleEditSuccess}
+                />
+              )}
+            </div>
+            <SheetFooter>
+              <SheetClose asChild>
+                <Button variant="outline">Cancel</Button>
+              </SheetClose>
+            </SheetFooter>
+          </SheetContent>
+        </Sheet>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Port of loading</TableHead>
+              <TableHead>Port of discharge</TableHead>
+              <TableHead>Typical Duration</TableHead>
+              <TableHead>Allowed Vessels</TableHead>
+              <TableHead>&nbsp;</TableHead>
+              <TableHead>&nbsp;</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {routes?.map((route) => (
+              <TableRow key={route.id}>
+                <TableCell>{route.portOfLoading.name}</TableCell>
+                <TableCell>{route.portOfDischarge.name}</TableCell>
+                <TableCell>
+                  {Math.floor(route.typicalDurationMinutes / 60)}h{" "}
+                  {route.typicalDurationMinutes % 60}m
+                </TableCell>
+                <TableCell>
+                  {route.vessels.length > 0
+                    ? route.vessels.map((vessel) => vessel.name).join(", ")
+                    : "-"}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    onClick={() => setEditingRoute(route)}
+                    variant="outline"
+                  >
+                    Edit
+                  </Button>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    onClick={() => mutation.mutate(route.id)}
+                    variant="outline"
+                  >
+                    X
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Layout>
+    </>
+  );
+}
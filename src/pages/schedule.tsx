@@ -0,0 +1,158 @@
+import {
+  type InvalidateQueryFilters,
+  useQueryClient,
+} from "@tanstack/react-query";
+import Head from "next/head";
+import { useState } from "react";
+import Layout from "~/components/layout";
+import {
+  formatPortTime,
+  MyTimeToggle,
+  useShowMyTime,
+} from "~/components/portTime";
+import ScheduleForm from "~/components/scheduleForm";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import type { ReturnType } from "./api/schedule/generate";
+
+export default function Schedule() {
+  const [result, setResult] = useState<ReturnType | null>(null);
+  const [isGenerated, setGenerated] = useState(false);
+  const [showMyTime, setShowMyTime] = useShowMyTime();
+  const { toast } = useToast();
+
+  const queryClient = useQueryClient();
+
+  const handlePreview = (preview: ReturnType) => {
+    setResult(preview);
+    setGenerated(false);
+  };
+
+  const handleGenerated = (generated: ReturnType) => {
+    setResult(generated);
+    setGenerated(true);
+    toast({
+      title: "Schedule generated successfully!",
+      description: `${generated.voyages.length} voyage(s) created, ${generated.skipped.length} skipped.`,
+    });
+    void queryClient.invalidateQueries(["voyages"] as InvalidateQueryFilters);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Schedule | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <div className="space-y-8 py-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">Generate Schedule</h1>
+            <p className="text-sm text-muted-foreground">
+              Plan a recurring sailing on a route. Preview the voyages first,
+              then generate them all at once.
+            </p>
+          </div>
+          <ScheduleForm
+            onPreview={handlePreview}
+            onGenerated={handleGenerated}
+          />
+          {result && (
+            <div className="space-y-6">
+              <MyTimeToggle
+                showMyTime={showMyTime}
+                setShowMyTime={setShowMyTime}
+              />
+              <div className="space-y-2">
+                <h2 className="text-lg font-medium">
+                  {isGenerated ? "Created" : "To be created"} (
+                  {result.voyages.length})
+                </h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Departure</TableHead>
+                      <TableHead>Arrival</TableHead>
+                      <TableHead>Vessel</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.voyages.map((voyage) => (
+                      <TableRow
+                        key={`${voyage.vessel.id}-${voyage.departure.toString()}`}
+                      >
+                        <TableCell>
+                          {formatPortTime(
+                            voyage.departure,
+                            result.portOfLoading.timezone,
+                            showMyTime,
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {formatPortTime(
+                            voyage.arrival,
+                            result.portOfDischarge.timezone,
+                            showMyTime,
+                          )}
+                        </TableCell>
+                        <TableCell>{voyage.vessel.name}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {result.skipped.length > 0 && (
+                <div className="space-y-2">
+                  <h2 className="text-lg font-medium">
+                    Skipped ({result.skipped.length})
+                  </h2>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Departure</TableHead>
+                        <TableHead>Arrival</TableHead>
+                        <TableHead>Vessel</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.skipped.map((voyage) => (
+                        <TableRow
+                          key={`${voyage.vessel.id}-${voyage.departure.toString()}`}
+                        >
+                          <TableCell>
+                            {formatPortTime(
+                              voyage.departure,
+                              result.portOfLoading.timezone,
+                              showMyTime,
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {formatPortTime(
+                              voyage.arrival,
+                              result.portOfDischarge.timezone,
+                              showMyTime,
+                            )}
+                          </TableCell>
+                          <TableCell>{voyage.vessel.name}</TableCell>
+                          <TableCell>{voyage.reason}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </Layout>
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+import Head from "next/head";
+import Layout from "~/components/layout";
+import { MyTimeToggle, useShowMyTime } from "~/components/portTime";
+import { VesselTimeline } from "~/components/vesselTimeline";
+
+export default function Timeline() {
+  const [showMyTime, setShowMyTime] = useShowMyTime();
+
+  return (
+    <>
+      <Head>
+        <title>Timeline | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <div className="space-y-2 py-4">
+          <h1 className="text-2xl font-semibold">Vessel Timeline</h1>
+          <p className="text-sm text-muted-foreground">
+            Drag a voyage to reschedule it, or onto another vessel to reassign
+            it. Drag either end of a voyage to change only its departure or
+            arrival.
+          </p>
+          <MyTimeToggle showMyTime={showMyTime} setShowMyTime={setShowMyTime} />
+        </div>
+        <VesselTimeline showMyTime={showMyTime} />
+      </Layout>
+    </>
+  );
+}
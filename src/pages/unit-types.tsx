@@ -0,0 +1,200 @@
+import {
+  type InvalidateQueryFilters,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import Head from "next/head";
+import { useState } from "react";
+import Layout from "~/components/layout";
+import UnitTypeForm from "~/components/unitTypeForm";
+import { Button } from "~/components/ui/button";
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "~/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import { assertResponseOk, fetchData, formatLaneMetres } from "~/utils";
+import type {
+  UnitTypeWithGroup,
+  VesselsType as UnitTypesType,
+} from "./api/unitType/getAll";
+
+export default function UnitTypes() {
+  const [isSheetOpen, setSheetOpen] = useState(false);
+  const [editingUnitType, setEditingUnitType] =
+    useState<UnitTypeWithGroup | null>(null);
+  const { toast } = useToast();
+
+  const queryClient = useQueryClient();
+
+  const { data: unitTypes } = useQuery<UnitTypesType>({
+    queryKey: ["unitTypes"],
+    queryFn: () => fetchData("unitType/getAll"),
+  });
+
+  const handleCreateSuccess = () => {
+    toast({
+      title: "Unit type created successfully!",
+      description: "The new unit type has been added to the catalogue.",
+    });
+    setSheetOpen(false);
+    void queryClient.invalidateQueries(["unitTypes"] as InvalidateQueryFilters);
+  };
+
+  const handleEditSuccess = () => {
+    toast({
+      title: "Unit type updated successfully!",
+      description: "The changes have been saved.",
+    });
+    setEditingUnitType(null);
+    void queryClient.invalidateQueries(["unitTypes"] as InvalidateQueryFilters);
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (unitTypeId: string) => {
+      const response = await fetch(`/api/unitType/delete?id=${unitTypeId}`, {
+        method: "DELETE",
+      });
+
+      await assertResponseOk(response, "Failed to delete the unit type");
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries([
+        "unitTypes",
+      ] as InvalidateQueryFilters);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete unit type",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Head>
+        <title>Unit Types | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <Sheet open={isSheetOpen} onOpenChange={setSheetOpen}>
+          <SheetTrigger asChild>
+            <Button variant="outline">Create</Button>
+          </SheetTrigger>
+          <SheetContent>
+            <SheetHeader>
+              <SheetTitle>Create Unit Type</SheetTitle>
+              <SheetDescription>
+                Fill in the details to create a new unit type. Click save when
+                you&apos;re done.
+              </SheetDescription>
+            </SheetHeader>
+            <div className="grid gap-4 py-4">
+              <UnitTypeForm onSuccess={handleCreateSuccess} />
+            </div>
+            <SheetFooter>
+              <SheetClose asChild>
+                <Button variant="outline">Cancel</Button>
+              </SheetClose>
+            </SheetFooter>
+          </SheetContent>
+        </Sheet>
+        <Sheet
+          open={editingUnitType !== null}
+          onOpenChange={(open) => !open && setEditingUnitType(null)}
+        >
+          <SheetContent>
+            <SheetHeader>
+              <SheetTitle>Edit Unit Type</SheetTitle>
+              <SheetDescription>
+                Change the details of the unit type. Click save when you&apos;re
+                done.
+              </SheetDescription>
+            </SheetHeader>
+            <div className="grid gap-4 py-4">
+              {editingUnitType && (
+                <UnitTypeForm
+                  key={editingUnitType.id}
+                  unitType={editingUnitType}
+                  onSuccess={handleEditSuccess}
+                />
+              )}
+            </div>
+            <SheetFooter>
+              <SheetClose asChild>
+                <Button variant="outline">Cancel</Button>
+              </SheetClose>
+            </SheetFooter>
+          </SheetContent>
+        </Sheet>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ID</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Group</TableHead>
+              <TableHead>Default Length</TableHead>
+              <TableHead>Drivers</TableHead>
+              <TableHead>Unit Number</TableHead>
+              <TableHead>&nbsp;</TableHead>
+              <TableHead>&nbsp;</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {unitTypes?.map((unitType) => (
+              <TableRow key={unitType.id}>
+                <TableCell>{unitType.id}</TableCell>
+                <TableCell>{unitType.name}</TableCell>
+                <TableCell>{unitType.unitGroup.name}</TableCell>
+                <TableCell>
+                  {formatLaneMetres(unitType.defaultLength)}
+                </TableCell>
+                <TableCell>{unitType.allowDrivers ? "Allowed" : "-"}</TableCell>
+                <TableCell>
+                  {unitType.mandatoryField === "UnitNumber"
+                    ? "Mandatory"
+                    : unitType.unitNumberAvailable
+                      ? "Optional"
+                      : "-"}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    onClick={() => setEditingUnitType(unitType)}
+                    variant="outline"
+                  >
+                    Edit
+                  </Button>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    onClick={() => mutation.mutate(unitType.id)}
+                    variant="outline"
+                  >
+                    X
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Layout>
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+import type { Vessel } from "@prisma/client";
+import {
+  type InvalidateQueryFilters,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import Head from "next/head";
+import { useState } from "react";
+import Layout from "~/components/layout";
+import VesselForm from "~/components/vesselForm";
+import { Button } from "~/components/ui/button";
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "~/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import { assertResponseOk, fetchData, formatLaneMetres } from "~/utils";
+import type { ReturnType } from "./api/vessel/getAll";
+
+export default function Vessels() {
+  const [isSheetOpen, setSheetOpen] = useState(false);
+  const [editingVessel, setEditingVessel] = useState<Vessel | null>(null);
+  const { toast } = useToast();
+
+  const queryClient = useQueryClient();
+
+  const { data: vessels } = useQuery<ReturnType>({
+    queryKey: ["vessels"],
+    queryFn: () => fetchData("vessel/getAll"),
+  });
+
+  const handleCreateSuccess = () => {
+    toast({
+      title: "Vessel created successfully!",
+      description: "The new vessel has been added to the list.",
+    });
+    setSheetOpen(false);
+    void queryClient.invalidateQueries(["vessels"] as InvalidateQueryFilters);
+    // The routes list which vessels are allowed on them
+    void queryClient.invalidateQueries(["routes"] as InvalidateQueryFilters);
+  };
+
+  const handleEditSuccess = () => {
+    toast({
+      title: "Vessel updated successfully!",
+      description: "The changes have been saved.",
+    });
+    setEditingVessel(null);
+    void queryClient.invalidateQueries(["vessels"] as InvalidateQueryFilters);
+    // The routes list which vessels are allowed on them
+    void queryClient.invalidateQueries(["routes"] as InvalidateQueryFilters);
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (vesselId: string) => {
+      const response = await fetch(`/api/vessel/delete?id=${vesselId}`, {
+        method: "DELETE",
+      });
+
+      await assertResponseOk(response, "Failed to delete the vessel");
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries([
+        "vessels",
+      ] as InvalidateQueryFilters);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete vessel",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Head>
+        <title>Vessels | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <Sheet open={isSheetOpen} onOpenChange={setSheetOpen}>
+          <SheetTrigger asChild>
+            <Button variant="outline">Create</Button>
+          </SheetTrigger>
+          <SheetContent>
+            <SheetHeader>
+              <SheetTitle>Create Vessel</SheetTitle>
+              <SheetDescription>
+                Fill in the details to create a new vessel. Click save when
+                you&apos;re done.
+              </SheetDescription>
+            </SheetHeader>
+            <div className="grid gap-4 py-4">
+              <VesselForm onSuccess={handleCreateSuccess} />
+            </div>
+            <SheetFooter>
+              <SheetClose asChild>
+                <Button variant="outline">Cancel</Button>
+              </SheetClose>
+            </SheetFooter>
+          </SheetContent>
+        </Sheet>
+        <Sheet
+          open={editingVessel !== null}
+          onOpenChange={(open) => !open && setEditingVessel(null)}
+        >
+          <SheetContent>
+            <SheetHeader>
+              <SheetTitle>Edit Vessel</SheetTitle>
+              <SheetDescription>
+                Change the details of the vessel. Click save when you&apos;re
+                done.
+              </SheetDescription>
+            </SheetHeader>
+            <div className="grid gap-4 py-4">
+              {editingVessel && (
+                <VesselForm
+                  key={editingVessel.id}
+                  vessel={editingVessel}
+                  onSuccess={handleEditSuccess}
+                />
+              )}
+            </div>
+            <SheetFooter>
+              <SheetClose asChild>
+                <Button variant="outline">Cancel</Button>
+              </SheetClose>
+            </SheetFooter>
+          </SheetContent>
+        </Sheet>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Lane Metre Capacity</TableHead>
+              <TableHead>&nbsp;</TableHead>
+              <TableHead>&nbsp;</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {vessels?.map((vessel) => (
+              <TableRow key={vessel.id}>
+                <TableCell>{vessel.name}</TableCell>
+                <TableCell>
+                  {formatLaneMetres(vessel.laneMetreCapacity)}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    onClick={() => setEditingVessel(vessel)}
+                    variant="outline"
+                  >
+                    Edit
+                  </Button>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    onClick={() => mutation.mutate(vessel.id)}
+                    variant="outline"
+                  >
+                    X
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Layout>
+    </>
+  );
+}
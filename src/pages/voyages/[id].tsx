@@ -0,0 +1,254 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDuration, intervalToDuration } from "date-fns";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import Layout from "~/components/layout";
+import { Button } from "~/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { TABLE_DATE_FORMAT } from "~/constants";
+import {
+  formatPortTime,
+  MyTimeToggle,
+  useShowMyTime,
+} from "~/components/portTime";
+import { UtilisationBar } from "~/components/utilisationBar";
+import { VoyageBookings } from "~/components/voyageBookings";
+import { VoyageStatusActions } from "~/components/voyageStatusActions";
+import { VoyageStatusBadge } from "~/components/voyageStatusBadge";
+import {
+  FetchError,
+  fetchData,
+  formatDelay,
+  formatLaneMetres,
+  getDelayMinutes,
+  getLaneMetresBooked,
+  getLaneMetresUsed,
+} from "~/utils";
+import type { ReturnType } from "../api/voyage/[id]";
+
+export default function VoyageDetail() {
+  const router = useRouter();
+  const voyageId = typeof router.query.id === "string" ? router.query.id : "";
+  const tab = router.query.tab === "bookings" ? "bookings" : "unitTypes";
+
+  // The open tab is kept in the URL, so a link can point at the bookings of a voyage
+  const setTab = (nextTab: "unitTypes" | "bookings") => {
+    void router.replace(
+      { query: { ...router.query, tab: nextTab } },
+      undefined,
+      {
+        shallow: true,
+      },
+    );
+  };
+
+  const [showMyTime, setShowMyTime] = useShowMyTime();
+
+  const {
+    data: voyage,
+    isLoading,
+    error,
+  } = useQuery<ReturnType>({
+    queryKey: ["voyage", voyageId],
+    queryFn: () => fetchData(`voyage/${voyageId}`),
+    enabled: voyageId !== "",
+  });
+
+  const scheduledDeparture = voyage && new Date(voyage.scheduledDeparture);
+  const scheduledArrival = voyage && new Date(voyage.scheduledArrival);
+  const laneMetresBooked = getLaneMetresBooked(voyage?.bookings ?? []);
+  const delayMinutes =
+    voyage && !voyage.deletedAt ? getDelayMinutes(voyage) : null;
+
+  return (
+    <>
+      <Head>
+        <title>Voyage | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <div className="space-y-6 py-4">
+          <Button variant="outline" asChild>
+            <Link href="/">Back to voyages</Link>
+          </Button>
+          {isLoading && <p>Loading voyage...</p>}
+          {error && (
+            <p>
+              {error instanceof FetchError && error.status === 404
+                ? "This voyage does not exist."
+                : "The voyage could not be loaded."}
+            </p>
+          )}
+          {voyage && scheduledDeparture && scheduledArrival && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h1 className="flex items-center gap-4 text-2xl font-semibold">
+                  {voyage.portOfLoading.name} → {voyage.portOfDischarge.name}
+                  <VoyageStatusBadge status={voyage.status} />
+                </h1>
+                <div className="flex items-center gap-4">
+                  <MyTimeToggle
+                    showMyTime={showMyTime}
+                    setShowMyTime={setShowMyTime}
+                  />
+                  {!voyage.deletedAt && (
+                    <VoyageStatusActions
+                      voyageId={voyage.id}
+                      status={voyage.status}
+                    />
+                  )}
+                </div>
+              </div>
+              {voyage.deletedAt && (
+                <p className="text-muted-foreground">
+                  This voyage was cancelled on{" "}
+                  {format(new Date(voyage.deletedAt), TABLE_DATE_FORMAT)}
+                  {voyage.cancellationReason
+                    ? `: ${voyage.cancellationReason}`
+                    : "."}
+                </p>
+              )}
+              <dl className="grid grid-cols-[max-content_1fr] gap-x-8 gap-y-2">
+                <dt className="text-muted-foreground">Port of loading</dt>
+                <dd>
+                  {voyage.portOfLoading.name} ({voyage.portOfLoading.code}),{" "}
+                  {voyage.portOfLoading.country}
+                </dd>
+                <dt className="text-muted-foreground">Port of discharge</dt>
+                <dd>
+                  {voyage.portOfDischarge.name} ({voyage.portOfDischarge.code}),{" "}
+                  {voyage.portOfDischarge.country}
+                </dd>
+                <dt className="text-muted-foreground">Departure</dt>
+                <dd>
+                  {formatPortTime(
+                    scheduledDeparture,
+                    voyage.portOfLoading.timezone,
+                    showMyTime,
+                  )}
+                </dd>
+                <dt className="text-muted-foreground">Arrival</dt>
+                <dd>
+                  {formatPortTime(
+                    scheduledArrival,
+                    voyage.portOfDischarge.timezone,
+                    showMyTime,
+                  )}
+                </dd>
+                {voyage.actualDeparture && (
+                  <>
+                    <dt className="text-muted-foreground">Actual departure</dt>
+                    <dd>
+                      {formatPortTime(
+                        voyage.actualDeparture,
+                        voyage.portOfLoading.timezone,
+                        showMyTime,
+                      )}
+                    </dd>
+                  </>
+                )}
+                {voyage.actualArrival && (
+                  <>
+                    <dt className="text-muted-foreground">Actual arrival</dt>
+                    <dd>
+                      {formatPortTime(
+                        voyage.actualArrival,
+                        voyage.portOfDischarge.timezone,
+                        showMyTime,
+                      )}
+                    </dd>
+                  </>
+                )}
+                {delayMinutes !== null && (
+                  <>
+                    <dt className="text-muted-foreground">Delay</dt>
+                    <dd>{formatDelay(delayMinutes)}</dd>
+                  </>
+                )}
+                <dt className="text-muted-foreground">Duration</dt>
+                <dd>
+                  {formatDuration(
+                    intervalToDuration({
+                      start: scheduledDeparture,
+                      end: scheduledArrival,
+                    }),
+                  )}
+                </dd>
+                <dt className="text-muted-foreground">Vessel</dt>
+                <dd>{voyage.vessel.name}</dd>
+                <dt className="text-muted-foreground">Lane metres</dt>
+                <dd>
+                  {formatLaneMetres(laneMetresBooked)} of{" "}
+                  {formatLaneMetres(voyage.vessel.laneMetreCapacity)} booked
+                </dd>
+                <dt className="text-muted-foreground">Utilisation</dt>
+                <dd className="max-w-xs">
+                  <UtilisationBar
+                    laneMetresUsed={laneMetresBooked}
+                    laneMetreCapacity={voyage.vessel.laneMetreCapacity}
+                  />
+                </dd>
+              </dl>
+              <div className="space-y-2">
+                <div className="flex gap-2 border-b pb-2">
+                  <Button
+                    variant={tab === "unitTypes" ? "secondary" : "ghost"}
+                    onClick={() => setTab("unitTypes")}
+                  >
+                    Unit Types
+                  </Button>
+                  <Button
+                    variant={tab === "bookings" ? "secondary" : "ghost"}
+                    onClick={() => setTab("bookings")}
+                  >
+                    Bookings
+                  </Button>
+                </div>
+                {tab === "unitTypes" && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>ID</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Default Length</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {voyage.unitTypes.map((unitType) => (
+                        <TableRow key={unitType.id}>
+                          <TableCell>{unitType.id}</TableCell>
+                          <TableCell>{unitType.name}</TableCell>
+                          <TableCell>{unitType.defaultLength}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={2}>Total</TableCell>
+                        <TableCell>
+                          {formatLaneMetres(
+                            getLaneMetresUsed(voyage.unitTypes),
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                )}
+                {tab === "bookings" && <VoyageBookings voyage={voyage} />}
+              </div>
+            </>
+          )}
+        </div>
+      </Layout>
+    </>
+  );
+}
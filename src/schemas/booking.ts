@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+export const bookingSchema = z.object({
+  voyage: z
+    .string({ required_error: "Voyage is required" })
+    .min(1, "Voyage is required"),
+  unitType: z
+    .string({ required_error: "Unit type is required" })
+    .min(1, "Unit type is required"),
+  unitNumber: z
+    .string()
+    .trim()
+    .nullish()
+    // An empty unit number means no unit number
+    .transform((unitNumber) =>
+      unitNumber === "" ? null : (unitNumber ?? null),
+    ),
+  length: z
+    .number({ invalid_type_error: "Length must be a number" })
+    .positive("Length must be greater than 0")
+    .nullish()
+    .transform((length) => length ?? null),
+  customerReference: z
+    .string({ required_error: "Customer reference is required" })
+    .trim()
+    .min(1, "Customer reference is required"),
+  withDriver: z.boolean().default(false),
+});
+
+/**
+ * A booking cannot be moved to another voyage once it is created.
+ */
+export const bookingUpdateSchema = bookingSchema
+  .omit({ voyage: true })
+  .partial();
+
+export type BookingFormData = z.infer<typeof bookingSchema>;
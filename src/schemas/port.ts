@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+/**
+ * Checks whether the given name is an IANA time zone known to the runtime, e.g. "Europe/Copenhagen".
+ * @param timezone
+ * @returns
+ */
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const portSchema = z.object({
+  code: z
+    .string()
+    .toUpperCase()
+    .regex(/^[A-Z]{2}[A-Z2-9]{3}$/, "Code must be a UN/LOCODE, e.g. DKCPH"),
+  name: z.string().min(1, "Name is required"),
+  country: z.string().min(1, "Country is required"),
+  timezone: z
+    .string()
+    .refine(isValidTimezone, "Timezone must be an IANA time zone"),
+});
+
+export type PortFormData = z.infer<typeof portSchema>;
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+export const SAME_PORTS_MESSAGE =
+  "Port of discharge must differ from the port of loading";
+
+/**
+ * Fields of a route as sent by the route form and accepted by the route API routes, without the checks across fields.
+ */
+export const routeFieldsSchema = z.object({
+  portOfLoading: z
+    .string({ required_error: "Port of loading is required" })
+    .min(1, "Port of loading is required"),
+  portOfDischarge: z
+    .string({ required_error: "Port of discharge is required" })
+    .min(1, "Port of discharge is required"),
+  typicalDurationMinutes: z
+    .number({
+      required_error: "Typical duration is required",
+      invalid_type_error: "Typical duration must be a number",
+    })
+    .int("Typical duration must be a whole number of minutes")
+    .positive("Typical duration must be greater than 0"),
+  // IDs of the vessels allowed on the route
+  vessels: z.array(z.string()).default([]),
+});
+
+export const routeSchema = routeFieldsSchema.refine(
+  (data) => data.portOfLoading !== data.portOfDischarge,
+  { message: SAME_PORTS_MESSAGE, path: ["portOfDischarge"] },
+);
+
+export type RouteFormData = z.infer<typeof routeSchema>;
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+// The longest period a schedule can be generated for at once
+export const MAX_SCHEDULE_DAYS = 366;
+
+const dateString = (requiredMessage: string, invalidMessage: string) =>
+  z
+    .string({ required_error: requiredMessage })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, invalidMessage)
+    .refine((value) => !Number.isNaN(Date.parse(value)), invalidMessage);
+
+/**
+ * Fields of a recurring schedule, without the checks across fields.
+ */
+export const scheduleFieldsSchema = z.object({
+  portOfLoading: z
+    .string({ required_error: "Port of loading is required" })
+    .min(1, "Port of loading is required"),
+  portOfDischarge: z
+    .string({ required_error: "Port of discharge is required" })
+    .min(1, "Port of discharge is required"),
+  // The vessels take turns sailing the route, in this order
+  vessels: z
+    .array(z.string(), { required_error: "At least one vessel is required" })
+    .nonempty("At least one vessel is required"),
+  // Days of the week with a departure, where 0 is Sunday
+  weekdays: z
+    .array(z.number().int().min(0).max(6), {
+      required_error: "At least one weekday is required",
+    })
+    .nonempty("At least one weekday is required"),
+  // Departure time in the local time of the port of loading
+  departureTime: z
+    .string({ required_error: "Departure time is required" })
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Departure time must be HH:mm"),
+  durationMinutes: z
+    .number({
+      required_error: "Duration is required",
+      invalid_type_error: "Duration must be a number",
+    })
+    .int("Duration must be a whole number of minutes")
+    .positive("Duration must be greater than 0"),
+  from: dateString("Start date is required", "Start date must be a valid date"),
+  to: dateString("End date is required", "End date must be a valid date"),
+  unitTypes: z
+    .array(z.string(), {
+      required_error: "At least one unit type is required",
+    })
+    .nonempty("At least one unit type is required"),
+  // Only plan the voyages without creating them
+  dryRun: z.boolean().default(false),
+});
+
+export const scheduleSchema = scheduleFieldsSchema
+  .refine((data) => data.to >= data.from, {
+    message: "End date must not be before the start date",
+    path: ["to"],
+  })
+  .refine(
+    (data) =>
+      (Date.parse(data.to) - Date.parse(data.from)) / 86_400_000 <
+      MAX_SCHEDULE_DAYS,
+    {
+      message: `A schedule can cover at most ${MAX_SCHEDULE_DAYS} days`,
+      path: ["to"],
+    },
+  );
+
+export type ScheduleFormData = z.infer<typeof scheduleSchema>;
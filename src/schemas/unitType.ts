@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+/**
+ * Booking fields a unit type can make mandatory.
+ */
+export const MANDATORY_FIELDS = ["UnitNumber"] as const;
+
+export const unitTypeSchema = z.object({
+  id: z
+    .string({ required_error: "ID is required" })
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]+$/, "ID may only contain letters and digits"),
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, "Name is required"),
+  defaultLength: z
+    .number({
+      required_error: "Default length is required",
+      invalid_type_error: "Default length must be a number",
+    })
+    .positive("Default length must be greater than 0"),
+  unitGroupId: z
+    .string({ required_error: "Unit group is required" })
+    .min(1, "Unit group is required"),
+  allowDrivers: z.boolean().default(false),
+  mandatoryField: z.enum(MANDATORY_FIELDS).nullable().default(null),
+  unitNumberAvailable: z.boolean().default(false),
+});
+
+/**
+ * The ID of a unit type cannot change once it is created.
+ */
+export const unitTypeUpdateSchema = unitTypeSchema.omit({ id: true }).partial();
+
+export type UnitTypeFormData = z.infer<typeof unitTypeSchema>;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const vesselSchema = z.object({
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, "Name is required"),
+  laneMetreCapacity: z
+    .number({
+      required_error: "Lane metre capacity is required",
+      invalid_type_error: "Lane metre capacity must be a number",
+    })
+    .positive("Lane metre capacity must be greater than 0"),
+  // IDs of the routes the vessel is allowed on
+  routes: z.array(z.string()).optional(),
+});
+
+export type VesselFormData = z.infer<typeof vesselSchema>;
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+export const ARRIVAL_AFTER_DEPARTURE_MESSAGE =
+  "Arrival date must be after departure date";
+
+const dateTimeString = (requiredMessage: string, invalidMessage: string) =>
+  z
+    .string({ required_error: requiredMessage })
+    .min(1, requiredMessage)
+    .refine((value) => !Number.isNaN(Date.parse(value)), invalidMessage);
+
+/**
+ * Fields of a voyage as sent by the voyage form and accepted by the voyage API routes, without the checks across fields.
+ */
+export const voyageFieldsSchema = z.object({
+  departure: dateTimeString(
+    "Departure is required",
+    "Departure must be a valid date",
+  ),
+  arrival: dateTimeString(
+    "Arrival is required",
+    "Arrival must be a valid date",
+  ),
+  portOfLoading: z
+    .string({ required_error: "Port of loading is required" })
+    .min(1, "Port of loading is required"),
+  portOfDischarge: z
+    .string({ required_error: "Port of discharge is required" })
+    .min(1, "Port of discharge is required"),
+  vessel: z
+    .string({ required_error: "Vessel is required" })
+    .min(1, "Vessel is required"),
+  unitTypes: z
+    .array(z.string(), { required_error: "At least one unit type is required" })
+    .nonempty("At least one unit type is required"),
+});
+
+/**
+ * Checks whether a voyage arrives strictly after it departs.
+ * @param departure
+ * @param arrival
+ * @returns
+ */
+export function isArrivalAfterDeparture(
+  departure: string | Date,
+  arrival: string | Date,
+) {
+  return new Date(arrival) > new Date(departure);
+}
+
+export const voyageSchema = voyageFieldsSchema.refine(
+  (data) => isArrivalAfterDeparture(data.departure, data.arrival),
+  {
+    message: ARRIVAL_AFTER_DEPARTURE_MESSAGE,
+    path: ["arrival"],
+  },
+);
+
+export type VoyageFormData = z.infer<typeof voyageSchema>;
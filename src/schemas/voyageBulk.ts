@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { voyageFieldsSchema, voyageSchema } from "~/schemas/voyage";
+
+export const MAX_BULK_OPERATIONS = 100;
+
+const voyageId = z
+  .string({ required_error: "Voyage ID is required" })
+  .min(1, "Voyage ID is required");
+
+/**
+ * One operation of a bulk request, validated on its own so an invalid operation does not reject the others.
+ */
+export const bulkOperationSchema = z.discriminatedUnion(
+  "action",
+  [
+    z.object({ action: z.literal("create"), data: voyageSchema }),
+    z.object({
+      action: z.literal("update"),
+      id: voyageId,
+      data: voyageFieldsSchema.partial(),
+    }),
+    z.object({
+      action: z.literal("delete"),
+      id: voyageId,
+      reason: z.string().trim().min(1).optional(),
+    }),
+  ],
+  {
+    errorMap: () => ({
+      message: "Action must be one of create, update or delete",
+    }),
+  },
+);
+
+export const bulkRequestSchema = z.object({
+  operations: z
+    .array(z.unknown(), { required_error: "Operations are required" })
+    .min(1, "At least one operation is required")
+    .max(
+      MAX_BULK_OPERATIONS,
+      `At most ${MAX_BULK_OPERATIONS} operations can be sent at once`,
+    ),
+});
+
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+export type BulkAction = BulkOperation["action"];
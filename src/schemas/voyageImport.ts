@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+export const MAX_IMPORT_ROWS = 500;
+
+export const voyageImportSchema = z.object({
+  csv: z
+    .string({ required_error: "CSV is required" })
+    .trim()
+    .min(1, "CSV is required"),
+  // Checks every row without saving anything
+  dryRun: z.boolean().default(false),
+});
+
+export type VoyageImportData = z.infer<typeof voyageImportSchema>;
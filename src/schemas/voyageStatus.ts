@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+export const VOYAGE_STATUSES = [
+  "PLANNED",
+  "OPEN_FOR_BOOKING",
+  "CLOSED",
+  "DEPARTED",
+  "ARRIVED",
+  "CANCELLED",
+] as const;
+
+export type VoyageStatus = (typeof VOYAGE_STATUSES)[number];
+
+export const VOYAGE_STATUS_LABELS: Record<VoyageStatus, string> = {
+  PLANNED: "Planned",
+  OPEN_FOR_BOOKING: "Open for booking",
+  CLOSED: "Closed",
+  DEPARTED: "Departed",
+  ARRIVED: "Arrived",
+  CANCELLED: "Cancelled",
+};
+
+/**
+ * The statuses a voyage can move to from each status. A voyage can be cancelled until it departs,
+ * and arrived and cancelled voyages are final.
+ */
+export const VOYAGE_TRANSITIONS: Record<VoyageStatus, VoyageStatus[]> = {
+  PLANNED: ["OPEN_FOR_BOOKING", "CANCELLED"],
+  OPEN_FOR_BOOKING: ["CLOSED", "CANCELLED"],
+  CLOSED: ["DEPARTED", "CANCELLED"],
+  DEPARTED: ["ARRIVED"],
+  ARRIVED: [],
+  CANCELLED: [],
+};
+
+/**
+ * Statuses of a voyage that has left port. Its schedule and vessel are history and can no longer be changed.
+ */
+export const SAILED_STATUSES: VoyageStatus[] = ["DEPARTED", "ARRIVED"];
+
+/**
+ * Checks whether a voyage has left port.
+ * @param status
+ * @returns
+ */
+export function hasSailed(status: string) {
+  return (SAILED_STATUSES as string[]).includes(status);
+}
+
+/**
+ * Checks whether a voyage can move from one status to another.
+ * @param from
+ * @param to
+ * @returns
+ */
+export function canTransition(from: string, to: VoyageStatus) {
+  return (
+    (VOYAGE_STATUSES as readonly string[]).includes(from) &&
+    VOYAGE_TRANSITIONS[from as VoyageStatus].includes(to)
+  );
+}
+
+export const voyageTransitionSchema = z.object({
+  status: z.enum(VOYAGE_STATUSES, {
+    errorMap: () => ({ message: "Status must be a valid voyage status" }),
+  }),
+  // When the vessel actually departed or arrived, defaulting to now
+  at: z
+    .string()
+    .refine(
+      (value) => !Number.isNaN(Date.parse(value)),
+      "Time must be a valid date",
+    )
+    .optional(),
+});
+
+export type VoyageTransitionData = z.infer<typeof voyageTransitionSchema>;
@@ -0,0 +1,123 @@
+import { prisma } from "~/server/db";
+import type { FieldErrors } from "~/server/validation";
+import { formatLaneMetres, getLaneMetresBooked } from "~/utils";
+
+interface BookingFields {
+  unitType: string;
+  unitNumber: string | null;
+  length: number | null;
+  withDriver: boolean;
+}
+
+/**
+ * Checks a booking against its voyage: the voyage must be open for booking, the unit type must be linked to it, the unit number and driver
+ * must follow the rules of the unit type, and the booked units must fit in the lane metre capacity of the vessel.
+ * @param excludeBookingId - Booking that is being updated, so it is not counted twice.
+ * @returns The errors per booking field, or null when the booking is allowed.
+ */
+export async function getBookingErrors(
+  voyageId: string,
+  booking: BookingFields,
+  excludeBookingId?: string,
+): Promise<FieldErrors | null> {
+  const voyage = await prisma.voyage.findUnique({
+    where: { id: voyageId },
+    include: {
+      vessel: true,
+      unitTypes: true,
+      bookings: {
+        where: { id: { not: excludeBookingId } },
+        include: { unitType: true },
+      },
+    },
+  });
+
+  if (!voyage) {
+    return { voyage: ["The selected voyage does not exist"] };
+  }
+
+  if (voyage.deletedAt !== null || voyage.status !== "OPEN_FOR_BOOKING") {
+    return { voyage: ["The voyage is not open for booking"] };
+  }
+
+  const unitType = voyage.unitTypes.find(
+    (unitType) => unitType.id === booking.unitType,
+  );
+  if (!unitType) {
+    return { unitType: ["The unit type is not available on this voyage"] };
+  }
+
+  const errors: FieldErrors = {};
+  const unitNumberMandatory = unitType.mandatoryField === "UnitNumber";
+  if (unitNumberMandatory && !booking.unitNumber) {
+    errors.unitNumber = [`A unit number is required for ${unitType.name}`];
+  }
+  if (
+    booking.unitNumber &&
+    !unitNumberMandatory &&
+    !unitType.unitNumberAvailable
+  ) {
+    errors.unitNumber = [`${unitType.name} does not have a unit number`];
+  }
+  if (booking.withDriver && !unitType.allowDrivers) {
+    errors.withDriver = [`Drivers are not allowed with ${unitType.name}`];
+  }
+
+  const laneMetresBooked = getLaneMetresBooked([
+    ...voyage.bookings,
+    { length: booking.length, unitType },
+  ]);
+  if (laneMetresBooked > voyage.vessel.laneMetreCapacity) {
+    errors.length = [
+      `The bookings need ${formatLaneMetres(laneMetresBooked)}, but ${voyage.vessel.name} only has ${formatLaneMetres(voyage.vessel.laneMetreCapacity)} of lanes`,
+    ];
+  }
+
+  return Object.keys(errors).length > 0 ? errors : null;
+}
+
+/**
+ * Checks that changing the vessel or unit types of a voyage keeps its bookings valid: every booked unit type
+ * must stay linked to the voyage, and the bookings must fit in the lane metre capacity of the vessel.
+ * @returns The errors per voyage field, or null when the bookings stay valid.
+ */
+export async function getVoyageBookingErrors(
+  voyageId: string,
+  vesselId: string,
+  unitTypeIds: string[],
+): Promise<FieldErrors | null> {
+  const [vessel, bookings] = await Promise.all([
+    prisma.vessel.findUnique({ where: { id: vesselId } }),
+    prisma.booking.findMany({
+      where: { voyageId },
+      include: { unitType: true },
+    }),
+  ]);
+
+  if (!vessel) {
+    return { vessel: ["The selected vessel does not exist"] };
+  }
+
+  const bookedUnitTypes = new Set(
+    bookings
+      .filter((booking) => !unitTypeIds.includes(booking.unitTypeId))
+      .map((booking) => booking.unitType.name),
+  );
+  if (bookedUnitTypes.size > 0) {
+    return {
+      unitTypes: [
+        `${[...bookedUnitTypes].join(", ")} cannot be removed, because units of that type are booked`,
+      ],
+    };
+  }
+
+  const laneMetresBooked = getLaneMetresBooked(bookings);
+  if (laneMetresBooked > vessel.laneMetreCapacity) {
+    return {
+      vessel: [
+        `The bookings need ${formatLaneMetres(laneMetresBooked)}, but ${vessel.name} only has ${formatLaneMetres(vessel.laneMetreCapacity)} of lanes`,
+      ],
+    };
+  }
+  return null;
+}
@@ -0,0 +1,138 @@
+import type { Port, Vessel, Voyage } from "@prisma/client";
+import { subDays } from "date-fns";
+import type { NextApiResponse } from "next";
+import {
+  VOYAGE_STATUS_LABELS,
+  type VoyageStatus,
+} from "~/schemas/voyageStatus";
+
+// Sailings that departed longer ago than this are left out of the feeds
+export const CALENDAR_HISTORY_DAYS = 90;
+
+export type CalendarVoyage = Voyage & {
+  vessel: Vessel;
+  portOfLoading: Port;
+  portOfDischarge: Port;
+};
+
+/**
+ * Prisma filter for the voyages shown in a calendar feed. Cancelled voyages are kept, so calendars remove the event.
+ */
+export function calendarWindow() {
+  return {
+    scheduledDeparture: { gte: subDays(new Date(), CALENDAR_HISTORY_DAYS) },
+  };
+}
+
+/**
+ * Formats an instant as an RFC 5545 date-time in UTC, e.g. 20240131T083000Z.
+ */
+function formatDateTime(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escapes a TEXT value, in which backslashes, semicolons, commas and line breaks have a meaning.
+ */
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line so no line is longer than 75 octets, continuing on lines that start with a space.
+ */
+function foldLine(line: string) {
+  const folded: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const charOctets = Buffer.byteLength(char, "utf8");
+    // Continuation lines lose one octet to the leading space
+    const limit = folded.length === 0 ? 75 : 74;
+    if (octets + charOctets > limit) {
+      folded.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += charOctets;
+  }
+  folded.push(current);
+  return folded.join("\r\n ");
+}
+
+/**
+ * One VEVENT per voyage. The UID is derived from the voyage ID and the SEQUENCE grows with every change,
+ * so calendar clients update the existing event instead of adding a new one.
+ */
+function buildEvent(voyage: CalendarVoyage, generatedAt: Date) {
+  const isCancelled =
+    voyage.deletedAt !== null || voyage.status === "CANCELLED";
+  const status =
+    VOYAGE_STATUS_LABELS[voyage.status as VoyageStatus] ?? voyage.status;
+  const description = [
+    `Vessel: ${voyage.vessel.name}`,
+    `From: ${voyage.portOfLoading.name} (${voyage.portOfLoading.code})`,
+    `To: ${voyage.portOfDischarge.name} (${voyage.portOfDischarge.code})`,
+    `Status: ${isCancelled ? VOYAGE_STATUS_LABELS.CANCELLED : status}`,
+    ...(voyage.cancellationReason
+      ? [`Reason: ${voyage.cancellationReason}`]
+      : []),
+  ].join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:voyage-${voyage.id}@dfds-voyages`,
+    `DTSTAMP:${formatDateTime(generatedAt)}`,
+    `DTSTART:${formatDateTime(voyage.scheduledDeparture)}`,
+    `DTEND:${formatDateTime(voyage.scheduledArrival)}`,
+    `SUMMARY:${escapeText(`${voyage.vessel.name}: ${voyage.portOfLoading.name} → ${voyage.portOfDischarge.name}`)}`,
+    `LOCATION:${escapeText(voyage.portOfLoading.name)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${isCancelled ? "CANCELLED" : "CONFIRMED"}`,
+    `SEQUENCE:${Math.floor((voyage.updatedAt.getTime() - voyage.createdAt.getTime()) / 1000)}`,
+    `LAST-MODIFIED:${formatDateTime(voyage.updatedAt)}`,
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Builds an RFC 5545 calendar with an event for every voyage.
+ * @param name - Name of the calendar, shown by calendar clients.
+ * @param voyages
+ * @returns
+ */
+export function buildCalendar(name: string, voyages: CalendarVoyage[]) {
+  const generatedAt = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DFDS//Voyages//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...voyages.flatMap((voyage) => buildEvent(voyage, generatedAt)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * Sends a calendar as an .ics file that calendar clients can subscribe to.
+ */
+export function sendCalendar(
+  res: NextApiResponse,
+  fileName: string,
+  calendar: string,
+) {
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", `inline; filename="${fileName}.ics"`);
+  res.status(200).send(calendar);
+}
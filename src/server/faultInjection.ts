@@ -0,0 +1,95 @@
+import type { NextApiHandler, NextApiRequest } from "next";
+import { z } from "zod";
+import { env } from "~/env.mjs";
+
+interface FaultConfig {
+  rate: number;
+  status: number;
+  latencyMs: number;
+  seed?: number;
+}
+
+const faultHeadersSchema = z.object({
+  "x-fault-rate": z.coerce.number().min(0).max(1).optional(),
+  "x-fault-status": z.coerce.number().int().min(400).max(599).optional(),
+  "x-fault-latency": z.coerce.number().int().min(0).optional(),
+  "x-fault-seed": z.coerce.number().int().optional(),
+});
+
+/**
+ * Small seeded pseudo-random number generator (mulberry32), so a seed always fails the same requests.
+ * @param seed
+ * @returns A function returning the next number between 0 and 1.
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// One sequence per seed, shared by the requests using that seed
+const seededRandoms = new Map<number, () => number>();
+
+function nextRandom(seed?: number) {
+  if (seed === undefined) return Math.random();
+
+  let random = seededRandoms.get(seed);
+  if (!random) {
+    random = createRandom(seed);
+    seededRandoms.set(seed, random);
+  }
+  return random();
+}
+
+/**
+ * Reads the fault injection settings from the environment, overridden by the x-fault-* headers of the request when
+ * FAULT_INJECTION_HEADERS is enabled. Invalid headers are ignored.
+ */
+function getFaultConfig(req: NextApiRequest): FaultConfig {
+  const config: FaultConfig = {
+    rate: env.FAULT_INJECTION_RATE,
+    status: env.FAULT_INJECTION_STATUS,
+    latencyMs: env.FAULT_INJECTION_LATENCY_MS,
+    seed: env.FAULT_INJECTION_SEED,
+  };
+  if (!env.FAULT_INJECTION_HEADERS) return config;
+
+  const headers = faultHeadersSchema.safeParse(req.headers);
+  if (!headers.success) return config;
+
+  return {
+    rate: headers.data["x-fault-rate"] ?? config.rate,
+    status: headers.data["x-fault-status"] ?? config.status,
+    latencyMs: headers.data["x-fault-latency"] ?? config.latencyMs,
+    seed: headers.data["x-fault-seed"] ?? config.seed,
+  };
+}
+
+/**
+ * Wraps an API route so it can be slowed down or made to fail on purpose, to exercise the error handling of its
+ * callers. Does nothing unless fault injection is configured.
+ * @param handler
+ * @returns
+ */
+export function withFaultInjection(handler: NextApiHandler): NextApiHandler {
+  return async (req, res) => {
+    const { rate, status, latencyMs, seed } = getFaultConfig(req);
+
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    }
+
+    if (rate > 0 && nextRandom(seed) < rate) {
+      res.setHeader("X-Fault-Injected", "true");
+      res.status(status).json({ error: "Injected fault" });
+      return;
+    }
+
+    return handler(req, res);
+  };
+}
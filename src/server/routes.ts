@@ -0,0 +1,88 @@
+import { prisma } from "~/server/db";
+import type { FieldErrors } from "~/server/validation";
+
+/**
+ * Checks that a voyage between the given ports follows a defined route, and that the vessel is allowed on it.
+ * @returns The errors per voyage field, or null when the voyage is allowed.
+ */
+export async function getRouteErrors(
+  portOfLoadingId: string,
+  portOfDischargeId: string,
+  vesselId: string,
+): Promise<FieldErrors | null> {
+  const route = await prisma.route.findUnique({
+    where: {
+      portOfLoadingId_portOfDischargeId: { portOfLoadingId, portOfDischargeId },
+    },
+    include: { vessels: { where: { id: vesselId } } },
+  });
+
+  if (!route) {
+    return {
+      portOfDischarge: ["There is no route between the selected ports"],
+    };
+  }
+  if (route.vessels.length === 0) {
+    return { vessel: ["The selected vessel is not allowed on this route"] };
+  }
+  return null;
+}
+
+/**
+ * Checks that the ports and vessels a route refers to exist. Only the given fields are checked, so it also suits partial updates.
+ * @returns The errors per route field, or null when everything exists.
+ */
+export async function getRouteReferenceErrors({
+  portOfLoading,
+  portOfDischarge,
+  vessels,
+}: {
+  portOfLoading?: string;
+  portOfDischarge?: string;
+  vessels?: string[];
+}): Promise<FieldErrors | null> {
+  const portIds = [portOfLoading, portOfDischarge].filter(
+    (id): id is string => id !== undefined,
+  );
+  const [ports, existingVessels] = await Promise.all([
+    prisma.port.findMany({ where: { id: { in: portIds } } }),
+    vessels
+      ? prisma.vessel.findMany({ where: { id: { in: vessels } } })
+      : Promise.resolve([]),
+  ]);
+  const portExists = (id: string) => ports.some((port) => port.id === id);
+
+  const fieldErrors: FieldErrors = {};
+  if (portOfLoading !== undefined && !portExists(portOfLoading)) {
+    fieldErrors.portOfLoading = ["The selected port does not exist"];
+  }
+  if (portOfDischarge !== undefined && !portExists(portOfDischarge)) {
+    fieldErrors.portOfDischarge = ["The selected port does not exist"];
+  }
+  const missingVessels = (vessels ?? []).filter(
+    (id) => !existingVessels.some((vessel) => vessel.id === id),
+  );
+  if (missingVessels.length > 0) {
+    fieldErrors.vessels = [`Unknown vessel(s): ${missingVessels.join(", ")}`];
+  }
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : null;
+}
+
+/**
+ * Checks that the routes a vessel is put on exist.
+ * @returns The errors per vessel field, or null when every route exists.
+ */
+export async function getVesselRouteErrors(
+  routeIds: string[] | undefined,
+): Promise<FieldErrors | null> {
+  if (!routeIds?.length) return null;
+  const routes = await prisma.route.findMany({
+    where: { id: { in: routeIds } },
+  });
+  const missingRoutes = routeIds.filter(
+    (id) => !routes.some((route) => route.id === id),
+  );
+  return missingRoutes.length > 0
+    ? { routes: [`Unknown route(s): ${missingRoutes.join(", ")}`] }
+    : null;
+}
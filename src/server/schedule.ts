@@ -0,0 +1,110 @@
+import type { Port, Vessel } from "@prisma/client";
+import { addMinutes } from "date-fns";
+import type { ScheduleFormData } from "~/schemas/schedule";
+import { zonedTimeToUtc } from "~/timezone";
+import {
+  findConflictingVoyages,
+  schedulesOverlap,
+} from "~/server/vesselAvailability";
+
+export interface ScheduledVoyage {
+  departure: Date;
+  arrival: Date;
+  vessel: { id: string; name: string };
+}
+
+export interface SkippedVoyage extends ScheduledVoyage {
+  reason: string;
+  conflictingVoyageIds: string[];
+}
+
+/**
+ * Lists the calendar dates from `from` to `to`, both included, as "yyyy-MM-dd" with their day of the week.
+ */
+function eachDate(from: string, to: string) {
+  const dates: { date: string; weekday: number }[] = [];
+  for (
+    let day = new Date(`${from}T00:00:00Z`);
+    day <= new Date(`${to}T00:00:00Z`);
+    day = new Date(day.getTime() + 86_400_000)
+  ) {
+    dates.push({
+      date: day.toISOString().slice(0, 10),
+      weekday: day.getUTCDay(),
+    });
+  }
+  return dates;
+}
+
+/**
+ * Plans the voyages of a recurring schedule. The vessels of the rotation take turns, and every departure is on the
+ * wall clock of the port of loading. Voyages that would double-book their vessel, either with an existing voyage or
+ * with an earlier voyage of the same schedule, are skipped.
+ */
+export async function planSchedule(
+  schedule: ScheduleFormData,
+  portOfLoading: Port,
+  vessels: Vessel[],
+) {
+  const voyages: ScheduledVoyage[] = [];
+  const skipped: SkippedVoyage[] = [];
+
+  const vesselsById = new Map(vessels.map((vessel) => [vessel.id, vessel]));
+  const sailingDates = eachDate(schedule.from, schedule.to).filter(
+    ({ weekday }) => schedule.weekdays.includes(weekday),
+  );
+
+  for (const [index, { date }] of sailingDates.entries()) {
+    const vessel = vesselsById.get(
+      schedule.vessels[index % schedule.vessels.length] ?? "",
+    );
+    if (!vessel) continue;
+
+    const departure = zonedTimeToUtc(
+      `${date}T${schedule.departureTime}`,
+      portOfLoading.timezone,
+    );
+    const voyage: ScheduledVoyage = {
+      departure,
+      arrival: addMinutes(departure, schedule.durationMinutes),
+      vessel: { id: vessel.id, name: vessel.name },
+    };
+
+    const conflicts = await findConflictingVoyages(
+      vessel.id,
+      voyage.departure,
+      voyage.arrival,
+    );
+    if (conflicts.length > 0) {
+      skipped.push({
+        ...voyage,
+        reason: `${vessel.name} is already booked for ${conflicts
+          .map(
+            (conflict) =>
+              `${conflict.portOfLoading.name} → ${conflict.portOfDischarge.name}`,
+          )
+          .join(", ")}`,
+        conflictingVoyageIds: conflicts.map((conflict) => conflict.id),
+      });
+      continue;
+    }
+
+    if (
+      voyages.some(
+        (planned) =>
+          planned.vessel.id === vessel.id && schedulesOverlap(planned, voyage),
+      )
+    ) {
+      skipped.push({
+        ...voyage,
+        reason: `${vessel.name} is still sailing an earlier voyage of this schedule`,
+        conflictingVoyageIds: [],
+      });
+      continue;
+    }
+
+    voyages.push(voyage);
+  }
+
+  return { voyages, skipped };
+}
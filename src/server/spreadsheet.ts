@@ -0,0 +1,197 @@
+export type SpreadsheetCell = string | number;
+
+// Text starting with one of these is run as a formula by spreadsheet programs opening a CSV file
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Writes rows as CSV, quoting every value that contains a separator, quote or line break.
+ * Text that would be read as a formula, e.g. a port named "=HYPERLINK(...)", is prefixed with an apostrophe so it
+ * stays text. Starts with a byte order mark so Excel reads the file as UTF-8.
+ * @param rows - The header row followed by the data rows.
+ * @returns
+ */
+export function toCsv(rows: SpreadsheetCell[][]) {
+  const escape = (cell: SpreadsheetCell) => {
+    const value =
+      typeof cell === "string" && FORMULA_PREFIX.test(cell)
+        ? `'${cell}`
+        : String(cell);
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  return `\uFEFF${rows.map((row) => row.map(escape).join(",")).join("\r\n")}\r\n`;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Name of the cell in the given column and row, e.g. "B3", both counted from zero.
+ */
+function getCellReference(column: number, row: number) {
+  let name = "";
+  for (
+    let index = column + 1;
+    index > 0;
+    index = Math.floor((index - 1) / 26)
+  ) {
+    name = String.fromCharCode(65 + ((index - 1) % 26)) + name;
+  }
+  return `${name}${row + 1}`;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into a zip archive without compression, which is all an xlsx file needs.
+ * @param files - File contents by path inside the archive.
+ * @returns
+ */
+function createZip(files: Record<string, string>) {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const name = Buffer.from(path, "utf8");
+    const data = Buffer.from(content, "utf8");
+    const crc = crc32(data);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(20, 4); // Version needed to extract
+    localHeader.writeUInt16LE(0x0800, 6); // File names are UTF-8
+    localHeader.writeUInt16LE(0, 8); // Stored, without compression
+    localHeader.writeUInt32LE(0, 10); // Modification time and date
+    localHeader.writeUInt32LE(crc, 14);
+    localHeader.writeUInt32LE(data.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(20, 4); // Version made by
+    centralHeader.writeUInt16LE(20, 6);
+    centralHeader.writeUInt16LE(0x0800, 8);
+    centralHeader.writeUInt16LE(0, 10);
+    centralHeader.writeUInt32LE(0, 12);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(data.length, 20);
+    centralHeader.writeUInt32LE(data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42); // Offset of the local header
+
+    localParts.push(localHeader, name, data);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const fileCount = Object.keys(files).length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(fileCount, 8);
+  end.writeUInt16LE(fileCount, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Writes rows as an xlsx workbook with a single sheet. Numbers are stored as numbers, everything else as inline text,
+ * which is never run as a formula.
+ * @param rows - The header row followed by the data rows.
+ * @param sheetName - Name of the sheet, at most 31 characters.
+ * @returns
+ */
+export function toXlsx(rows: SpreadsheetCell[][], sheetName = "Sheet1") {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, columnIndex) => {
+          const reference = getCellReference(columnIndex, rowIndex);
+          return typeof cell === "number"
+            ? `<c r="${reference}"><v>${cell}</v></c>`
+            : `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  const xmlDeclaration =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  return createZip({
+    "[Content_Types].xml": `${xmlDeclaration}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    "_rels/.rels": `${xmlDeclaration}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    "xl/workbook.xml": `${xmlDeclaration}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `${xmlDeclaration}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    "xl/worksheets/sheet1.xml": `${xmlDeclaration}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+  });
+}
+
+/**
+ * Reads CSV into rows of values. Quoted values may contain separators, doubled quotes and line breaks.
+ * A byte order mark and empty lines are skipped.
+ * @param text
+ * @returns
+ */
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let isQuoted = false;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    value = "";
+  };
+
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (isQuoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        value += '"';
+        index++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      value += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
@@ -0,0 +1,47 @@
+import type { NextApiResponse } from "next";
+import type { z } from "zod";
+
+export type FieldErrors = Record<string, string[] | undefined>;
+
+/**
+ * Body of every 400 response caused by invalid input, so clients can show each error next to its field.
+ */
+export type ValidationErrorResponse = {
+  error: string;
+  fieldErrors: FieldErrors;
+  formErrors: string[];
+};
+
+export function sendValidationError(
+  res: NextApiResponse,
+  fieldErrors: FieldErrors,
+  formErrors: string[] = [],
+) {
+  const response: ValidationErrorResponse = {
+    error: "Validation failed",
+    fieldErrors,
+    formErrors,
+  };
+  res.status(400).json(response);
+}
+
+/**
+ * Parses the request body with the given schema. When it is invalid, a 400 with the errors per field is sent and undefined is returned.
+ * @param schema
+ * @param body
+ * @param res
+ * @returns
+ */
+export function parseRequestBody<Schema extends z.ZodTypeAny>(
+  schema: Schema,
+  body: unknown,
+  res: NextApiResponse,
+): z.infer<Schema> | undefined {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const { fieldErrors, formErrors } = result.error.flatten();
+    sendValidationError(res, fieldErrors, formErrors);
+    return undefined;
+  }
+  return result.data;
+}
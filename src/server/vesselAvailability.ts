@@ -0,0 +1,103 @@
+import type { Port, Prisma, Voyage } from "@prisma/client";
+import { addMinutes, subMinutes } from "date-fns";
+import type { NextApiResponse } from "next";
+import { env } from "~/env.mjs";
+import { prisma } from "~/server/db";
+
+export type ConflictingVoyage = Voyage & {
+  portOfLoading: Port;
+  portOfDischarge: Port;
+};
+
+/**
+ * Body of the 409 response sent when a vessel would be booked for overlapping voyages.
+ */
+export type VesselConflictResponse = {
+  error: string;
+  conflicts: ConflictingVoyage[];
+};
+
+/**
+ * Filter for the voyages that overlap the given schedule once the turnaround time in port is added on both sides.
+ * Cancelled voyages, whether by status or deleted, no longer need their vessel.
+ */
+function overlapping(
+  departure: Date,
+  arrival: Date,
+  excludeVoyageId?: string,
+): Prisma.VoyageWhereInput {
+  return {
+    id: excludeVoyageId ? { not: excludeVoyageId } : undefined,
+    status: { not: "CANCELLED" },
+    deletedAt: null,
+    scheduledDeparture: {
+      lt: addMinutes(arrival, env.VESSEL_TURNAROUND_MINUTES),
+    },
+    scheduledArrival: {
+      gt: subMinutes(departure, env.VESSEL_TURNAROUND_MINUTES),
+    },
+  };
+}
+
+/**
+ * Checks whether two schedules of the same vessel overlap once the turnaround time in port is added on both sides.
+ */
+export function schedulesOverlap(
+  first: { departure: Date; arrival: Date },
+  second: { departure: Date; arrival: Date },
+) {
+  return (
+    first.departure <
+      addMinutes(second.arrival, env.VESSEL_TURNAROUND_MINUTES) &&
+    first.arrival > subMinutes(second.departure, env.VESSEL_TURNAROUND_MINUTES)
+  );
+}
+
+/**
+ * Finds the voyages of a vessel that overlap the given schedule, including the turnaround time the vessel needs in port.
+ * @param excludeVoyageId - Voyage that is being rescheduled, which never conflicts with itself.
+ */
+export async function findConflictingVoyages(
+  vesselId: string,
+  departure: Date,
+  arrival: Date,
+  excludeVoyageId?: string,
+): Promise<ConflictingVoyage[]> {
+  return prisma.voyage.findMany({
+    where: { vesselId, ...overlapping(departure, arrival, excludeVoyageId) },
+    include: { portOfLoading: {}, portOfDischarge: {} },
+    orderBy: { scheduledDeparture: "asc" },
+  });
+}
+
+/**
+ * Finds the vessels that have a voyage overlapping the given schedule, including turnaround time.
+ */
+export async function findBusyVesselIds(
+  departure: Date,
+  arrival: Date,
+  excludeVoyageId?: string,
+): Promise<string[]> {
+  const voyages = await prisma.voyage.findMany({
+    where: overlapping(departure, arrival, excludeVoyageId),
+    select: { vesselId: true },
+    distinct: ["vesselId"],
+  });
+  return voyages.map((voyage) => voyage.vesselId);
+}
+
+export function sendVesselConflict(
+  res: NextApiResponse,
+  conflicts: ConflictingVoyage[],
+) {
+  const response: VesselConflictResponse = {
+    error: `The vessel is already booked for ${conflicts
+      .map(
+        (voyage) =>
+          `${voyage.portOfLoading.name} → ${voyage.portOfDischarge.name} departing ${voyage.scheduledDeparture.toISOString()}`,
+      )
+      .join(", ")}`,
+    conflicts,
+  };
+  res.status(409).json(response);
+}
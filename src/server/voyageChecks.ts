@@ -0,0 +1,198 @@
+import type { NextApiResponse } from "next";
+import { getVoyageBookingErrors } from "~/server/bookings";
+import { prisma } from "~/server/db";
+import { getRouteErrors } from "~/server/routes";
+import { type FieldErrors, sendValidationError } from "~/server/validation";
+import {
+  type ConflictingVoyage,
+  findConflictingVoyages,
+  schedulesOverlap,
+  sendVesselConflict,
+} from "~/server/vesselAvailability";
+import {
+  ARRIVAL_AFTER_DEPARTURE_MESSAGE,
+  isArrivalAfterDeparture,
+  type VoyageFormData,
+} from "~/schemas/voyage";
+import { hasSailed } from "~/schemas/voyageStatus";
+
+/**
+ * Every field of a voyage, as it would be saved.
+ */
+export interface VoyageFields {
+  departure: string | Date;
+  arrival: string | Date;
+  portOfLoading: string;
+  portOfDischarge: string;
+  vessel: string;
+  unitTypes: string[];
+}
+
+/**
+ * Why a voyage cannot be saved: invalid fields, or a vessel that is already booked for an overlapping voyage.
+ */
+export type VoyageProblem =
+  { fieldErrors: FieldErrors } | { conflicts: ConflictingVoyage[] };
+
+/**
+ * Applies a partial change to the current fields of a voyage, so the result can be checked as a whole.
+ */
+export function mergeVoyageChange(
+  existingVoyage: {
+    scheduledDeparture: Date;
+    scheduledArrival: Date;
+    portOfLoadingId: string;
+    portOfDischargeId: string;
+    vesselId: string;
+    unitTypes: { id: string }[];
+  },
+  change: Partial<VoyageFormData>,
+): VoyageFields {
+  return {
+    departure: change.departure ?? existingVoyage.scheduledDeparture,
+    arrival: change.arrival ?? existingVoyage.scheduledArrival,
+    portOfLoading: change.portOfLoading ?? existingVoyage.portOfLoadingId,
+    portOfDischarge: change.portOfDischarge ?? existingVoyage.portOfDischargeId,
+    vessel: change.vessel ?? existingVoyage.vesselId,
+    unitTypes:
+      change.unitTypes ??
+      existingVoyage.unitTypes.map((unitType) => unitType.id),
+  };
+}
+
+/**
+ * Errors for a change to the schedule or vessel of a voyage that has already departed or arrived. Fields sent with their
+ * current value are no change, so replacing such a voyage as a whole is still allowed when they are kept.
+ */
+export function getSailedVoyageErrors(
+  existingVoyage: {
+    status: string;
+    scheduledDeparture: Date;
+    scheduledArrival: Date;
+    vesselId: string;
+  },
+  change: Partial<VoyageFormData>,
+): FieldErrors | null {
+  if (!hasSailed(existingVoyage.status)) return null;
+
+  const isChanged = (value: string | undefined, current: Date) =>
+    value !== undefined && new Date(value).getTime() !== current.getTime();
+  const message =
+    "The voyage has already departed, so its schedule and vessel can no longer be changed";
+  const fieldErrors: FieldErrors = {};
+  if (isChanged(change.departure, existingVoyage.scheduledDeparture)) {
+    fieldErrors.departure = [message];
+  }
+  if (isChanged(change.arrival, existingVoyage.scheduledArrival)) {
+    fieldErrors.arrival = [message];
+  }
+  if (
+    change.vessel !== undefined &&
+    change.vessel !== existingVoyage.vesselId
+  ) {
+    fieldErrors.vessel = [message];
+  }
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : null;
+}
+
+/**
+ * Checks that the unit types a voyage accepts exist, so an unknown ID is reported instead of failing the save.
+ * @returns The errors of the unitTypes field, or null when every unit type exists.
+ */
+export async function getUnitTypeErrors(
+  unitTypeIds: string[],
+): Promise<FieldErrors | null> {
+  const unitTypes = await prisma.unitType.findMany({
+    where: { id: { in: unitTypeIds } },
+    select: { id: true },
+  });
+  const missingIds = unitTypeIds.filter(
+    (id) => !unitTypes.some((unitType) => unitType.id === id),
+  );
+  if (missingIds.length === 0) return null;
+  return {
+    unitTypes: [...new Set(missingIds)].map(
+      (id) => `Unknown unit type "${id}"`,
+    ),
+  };
+}
+
+/**
+ * Checks whether two voyages that are about to be saved together would double-book a vessel.
+ */
+export function overlapOnSameVessel(first: VoyageFields, second: VoyageFields) {
+  return (
+    first.vessel === second.vessel &&
+    schedulesOverlap(
+      {
+        departure: new Date(first.departure),
+        arrival: new Date(first.arrival),
+      },
+      {
+        departure: new Date(second.departure),
+        arrival: new Date(second.arrival),
+      },
+    )
+  );
+}
+
+/**
+ * Runs every check a voyage has to pass before it is saved: the schedule, the route and its vessels, its unit types,
+ * the bookings of an existing voyage, and double bookings of the vessel. Lane metres are only checked against the
+ * booked units, since the unit types of a voyage are only the ones it accepts.
+ * @param voyage - The fields of the voyage as they would be saved.
+ * @param options.excludeVoyageId - Voyage that is being changed, which never conflicts with itself.
+ * @param options.checkBookings - Whether the bookings of the changed voyage have to stay valid, e.g. after a vessel change.
+ * @returns The first problem found, or null when the voyage can be saved.
+ */
+export async function findVoyageProblem(
+  voyage: VoyageFields,
+  options: { excludeVoyageId?: string; checkBookings?: boolean } = {},
+): Promise<VoyageProblem | null> {
+  if (!isArrivalAfterDeparture(voyage.departure, voyage.arrival)) {
+    return { fieldErrors: { arrival: [ARRIVAL_AFTER_DEPARTURE_MESSAGE] } };
+  }
+
+  const routeErrors = await getRouteErrors(
+    voyage.portOfLoading,
+    voyage.portOfDischarge,
+    voyage.vessel,
+  );
+  if (routeErrors) return { fieldErrors: routeErrors };
+
+  const unitTypeErrors = await getUnitTypeErrors(voyage.unitTypes);
+  if (unitTypeErrors) return { fieldErrors: unitTypeErrors };
+
+  if (options.excludeVoyageId && options.checkBookings) {
+    const bookingErrors = await getVoyageBookingErrors(
+      options.excludeVoyageId,
+      voyage.vessel,
+      voyage.unitTypes,
+    );
+    if (bookingErrors) return { fieldErrors: bookingErrors };
+  }
+
+  const conflicts = await findConflictingVoyages(
+    voyage.vessel,
+    new Date(voyage.departure),
+    new Date(voyage.arrival),
+    options.excludeVoyageId,
+  );
+  if (conflicts.length > 0) return { conflicts };
+
+  return null;
+}
+
+/**
+ * Sends a 400 with the errors per field, or a 409 with the conflicting voyages.
+ */
+export function sendVoyageProblem(
+  res: NextApiResponse,
+  problem: VoyageProblem,
+) {
+  if ("conflicts" in problem) {
+    sendVesselConflict(res, problem.conflicts);
+  } else {
+    sendValidationError(res, problem.fieldErrors);
+  }
+}
@@ -0,0 +1,231 @@
+import type { Port, Vessel } from "@prisma/client";
+import { prisma } from "~/server/db";
+import { parseCsv } from "~/server/spreadsheet";
+import type { FieldErrors } from "~/server/validation";
+import { findVoyageProblem, overlapOnSameVessel } from "~/server/voyageChecks";
+import { type VoyageFormData, voyageSchema } from "~/schemas/voyage";
+import { MAX_IMPORT_ROWS } from "~/schemas/voyageImport";
+import { zonedTimeToUtc } from "~/timezone";
+
+type VoyageField = keyof VoyageFormData;
+
+/**
+ * Column headers accepted for each voyage field, compared without case, spaces or punctuation.
+ * The headers of the voyage export are included, so an exported file can be imported again.
+ */
+const COLUMN_ALIASES: Record<VoyageField, string[]> = {
+  departure: ["departure", "departureutc"],
+  arrival: ["arrival", "arrivalutc"],
+  portOfLoading: ["portofloading"],
+  portOfDischarge: ["portofdischarge"],
+  vessel: ["vessel", "vesselname"],
+  unitTypes: ["unittypes", "unittypeids"],
+};
+
+const normaliseHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z]/g, "");
+
+/**
+ * One row of an imported CSV, with the names it referred to resolved to records.
+ */
+export type ImportedRow = {
+  // Line of the row in the file, counting the header as line 1
+  line: number;
+  voyage: {
+    departure: string;
+    arrival: string;
+    portOfLoading: Port | null;
+    portOfDischarge: Port | null;
+    vessel: Vessel | null;
+    unitTypes: string[];
+  };
+  errors: FieldErrors | null;
+};
+
+export type ImportResult =
+  { formErrors: string[] } | { rows: ImportedRow[]; voyages: VoyageFormData[] };
+
+const addError = (errors: FieldErrors, field: string, message: string) => {
+  errors[field] = [...(errors[field] ?? []), message];
+};
+
+/**
+ * Finds the one record whose name matches, ignoring case.
+ * @returns The record, or an error message when there is no match or more than one.
+ */
+function findByName<Item extends { name: string }>(
+  items: Item[],
+  name: string,
+  label: string,
+): Item | string {
+  const matches = items.filter(
+    (item) => item.name.toLowerCase() === name.toLowerCase(),
+  );
+  if (matches.length === 0) return `Unknown ${label} "${name}"`;
+  if (matches.length > 1) return `More than one ${label} is named "${name}"`;
+  return matches[0] ?? `Unknown ${label} "${name}"`;
+}
+
+/**
+ * Reads a date and time without a time zone, e.g. 2024-01-31 08:30, as the local time of the port.
+ * Values with a time zone, like the UTC times of the voyage export, are kept as they are.
+ * @returns The instant as ISO string, or the value as it was when it is not a local date and time.
+ */
+function toInstant(value: string, port: Port | null) {
+  const localDateTime = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})(:\d{2})?$/.exec(
+    value,
+  );
+  if (!localDateTime || !port) return value;
+  return zonedTimeToUtc(
+    `${localDateTime[1]}T${localDateTime[2]}`,
+    port.timezone,
+  ).toISOString();
+}
+
+/**
+ * Parses voyages from CSV and runs every check a new voyage has to pass, including double bookings between the rows.
+ * Ports can be given by ID, UN/LOCODE or name, vessels by ID or name, and unit types by ID, separated by semicolons.
+ * Departure and arrival without a time zone are the local times of the port of loading and port of discharge.
+ * @param csv
+ * @returns Errors about the file as a whole, or the rows with their errors and the voyages that can be created.
+ */
+export async function checkImportedVoyages(csv: string): Promise<ImportResult> {
+  const [header, ...records] = parseCsv(csv);
+  if (!header || records.length === 0) {
+    return { formErrors: ["The CSV has no voyages below its header row"] };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return {
+      formErrors: [
+        `At most ${MAX_IMPORT_ROWS} voyages can be imported at once`,
+      ],
+    };
+  }
+
+  const headers = header.map(normaliseHeader);
+  const columns = {} as Record<VoyageField, number>;
+  const missingColumns: string[] = [];
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const column = headers.findIndex((name) => aliases.includes(name));
+    if (column === -1) missingColumns.push(field);
+    columns[field as VoyageField] = column;
+  }
+  if (missingColumns.length > 0) {
+    return { formErrors: [`Missing columns: ${missingColumns.join(", ")}`] };
+  }
+
+  const [ports, vessels, unitTypes] = await Promise.all([
+    prisma.port.findMany(),
+    prisma.vessel.findMany(),
+    prisma.unitType.findMany({ select: { id: true } }),
+  ]);
+  const unitTypeIds = new Set(unitTypes.map(({ id }) => id));
+
+  const findPort = (value: string) =>
+    ports.find(
+      (port) =>
+        port.id === value || port.code.toUpperCase() === value.toUpperCase(),
+    ) ?? findByName(ports, value, "port");
+  const findVessel = (value: string) =>
+    vessels.find((vessel) => vessel.id === value) ??
+    findByName(vessels, value, "vessel");
+
+  const rows: ImportedRow[] = [];
+  const accepted: { line: number; voyage: VoyageFormData }[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const line = index + 2;
+    const cell = (field: VoyageField) => (record[columns[field]] ?? "").trim();
+    const errors: FieldErrors = {};
+
+    // Empty values are left to the voyage schema, which reports them as required
+    const resolve = <Item extends { id: string; name: string }>(
+      field: VoyageField,
+      find: (value: string) => Item | string,
+    ) => {
+      if (cell(field) === "") return null;
+      const found = find(cell(field));
+      if (typeof found === "string") {
+        addError(errors, field, found);
+        return null;
+      }
+      return found;
+    };
+
+    const rowUnitTypes = cell("unitTypes")
+      .split(";")
+      .map((unitTypeId) => unitTypeId.trim())
+      .filter((unitTypeId) => unitTypeId !== "");
+    for (const unitTypeId of rowUnitTypes) {
+      if (!unitTypeIds.has(unitTypeId)) {
+        addError(errors, "unitTypes", `Unknown unit type "${unitTypeId}"`);
+      }
+    }
+
+    const portOfLoading = resolve("portOfLoading", findPort);
+    const portOfDischarge = resolve("portOfDischarge", findPort);
+    const row: ImportedRow = {
+      line,
+      voyage: {
+        departure: toInstant(cell("departure"), portOfLoading),
+        arrival: toInstant(cell("arrival"), portOfDischarge),
+        portOfLoading,
+        portOfDischarge,
+        vessel: resolve("vessel", findVessel),
+        unitTypes: rowUnitTypes,
+      },
+      errors: null,
+    };
+    rows.push(row);
+
+    const parsed = voyageSchema.safeParse({
+      departure: row.voyage.departure,
+      arrival: row.voyage.arrival,
+      portOfLoading: row.voyage.portOfLoading?.id ?? "",
+      portOfDischarge: row.voyage.portOfDischarge?.id ?? "",
+      vessel: row.voyage.vessel?.id ?? "",
+      unitTypes: rowUnitTypes,
+    });
+    if (!parsed.success) {
+      // A value that could not be resolved already has a clearer error than "required"
+      for (const [field, messages] of Object.entries(
+        parsed.error.flatten().fieldErrors,
+      )) {
+        errors[field] ??= messages;
+      }
+    }
+    if (!parsed.success || Object.keys(errors).length > 0) {
+      row.errors = errors;
+      continue;
+    }
+
+    const voyage = parsed.data;
+    const problem = await findVoyageProblem(voyage);
+    if (problem) {
+      row.errors =
+        "fieldErrors" in problem
+          ? problem.fieldErrors
+          : {
+              vessel: [
+                "The vessel is already booked for an overlapping voyage",
+              ],
+            };
+      continue;
+    }
+
+    const overlappingRow = accepted.find((acceptedRow) =>
+      overlapOnSameVessel(acceptedRow.voyage, voyage),
+    );
+    if (overlappingRow) {
+      row.errors = {
+        vessel: [
+          `The vessel is already booked by the voyage on line ${overlappingRow.line}`,
+        ],
+      };
+      continue;
+    }
+    accepted.push({ line, voyage });
+  }
+
+  return { rows, voyages: accepted.map(({ voyage }) => voyage) };
+}
@@ -0,0 +1,93 @@
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+export const VOYAGE_SORT_FIELDS = [
+  "departure",
+  "arrival",
+  "portOfLoading",
+  "portOfDischarge",
+  "vessel",
+  "status",
+] as const;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Query parameters accepted by the voyage list endpoints. Every value arrives as a string, so numbers and dates are coerced.
+ */
+export const voyageQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .default(DEFAULT_PAGE_SIZE),
+  sortBy: z.enum(VOYAGE_SORT_FIELDS).default("departure"),
+  sortOrder: z.enum(["asc", "desc"]).default("asc"),
+  portOfLoading: z.string().min(1).optional(),
+  portOfDischarge: z.string().min(1).optional(),
+  vessel: z.string().min(1).optional(),
+  unitType: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  search: z.string().trim().min(1).optional(),
+  // z.coerce.boolean() would turn "false" into true
+  includeDeleted: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export type VoyageQuery = z.infer<typeof voyageQuerySchema>;
+
+/**
+ * Builds the Prisma filter for a voyage query. The date range matches every voyage that is at sea at some point between `from` and `to`.
+ * The search matches the ID of the voyage, the name or code of either port and the name of the vessel.
+ * Cancelled voyages are left out unless `includeDeleted` is set.
+ */
+export function buildVoyageWhere(query: VoyageQuery): Prisma.VoyageWhereInput {
+  // `contains` is a LIKE in SQLite, so the search ignores case for ASCII letters
+  const search = query.search && { contains: query.search };
+  return {
+    OR: search
+      ? [
+          { id: search },
+          { portOfLoading: { name: search } },
+          { portOfLoading: { code: search } },
+          { portOfDischarge: { name: search } },
+          { portOfDischarge: { code: search } },
+          { vessel: { name: search } },
+        ]
+      : undefined,
+    portOfLoadingId: query.portOfLoading,
+    portOfDischargeId: query.portOfDischarge,
+    vesselId: query.vessel,
+    unitTypes: query.unitType ? { some: { id: query.unitType } } : undefined,
+    scheduledArrival: query.from ? { gte: query.from } : undefined,
+    scheduledDeparture: query.to ? { lte: query.to } : undefined,
+    deletedAt: query.includeDeleted ? undefined : null,
+  };
+}
+
+/**
+ * Builds the Prisma ordering for a voyage query. The ID is used as a tie-breaker so pages stay stable.
+ */
+export function buildVoyageOrderBy(
+  query: VoyageQuery,
+): Prisma.VoyageOrderByWithRelationInput[] {
+  const orderBy: Record<
+    VoyageQuery["sortBy"],
+    Prisma.VoyageOrderByWithRelationInput
+  > = {
+    departure: { scheduledDeparture: query.sortOrder },
+    arrival: { scheduledArrival: query.sortOrder },
+    portOfLoading: { portOfLoading: { name: query.sortOrder } },
+    portOfDischarge: { portOfDischarge: { name: query.sortOrder } },
+    vessel: { vessel: { name: query.sortOrder } },
+    status: { status: query.sortOrder },
+  };
+
+  return [orderBy[query.sortBy], { id: "asc" }];
+}
@@ -0,0 +1,48 @@
+import type { Prisma } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import {
+  VOYAGE_STATUS_LABELS,
+  VOYAGE_TRANSITIONS,
+  type VoyageStatus,
+} from "~/schemas/voyageStatus";
+
+/**
+ * Why a voyage cannot move from its current status to the given one.
+ */
+export function getTransitionError(from: string, to: VoyageStatus) {
+  const label = VOYAGE_STATUS_LABELS[from as VoyageStatus] ?? from;
+  return `Cannot change the status of the voyage from ${label} to ${VOYAGE_STATUS_LABELS[to]}`;
+}
+
+/**
+ * Sends a 409 for a status change the lifecycle does not allow, listing the statuses the voyage can move to.
+ */
+export function sendTransitionNotAllowed(
+  res: NextApiResponse,
+  from: string,
+  to: VoyageStatus,
+) {
+  res.status(409).json({
+    error: getTransitionError(from, to),
+    allowedStatuses: VOYAGE_TRANSITIONS[from as VoyageStatus] ?? [],
+  });
+}
+
+/**
+ * Changes that cancel a voyage. It is kept for reporting and hidden from the voyage list, and remembers its status so
+ * restoring it goes back to where it was.
+ * @param voyage - The voyage as it is before cancelling.
+ * @param reason - Why the voyage is cancelled.
+ * @returns
+ */
+export function getCancellation(
+  voyage: { status: string },
+  reason?: string,
+): Prisma.VoyageUpdateInput {
+  return {
+    status: "CANCELLED",
+    statusBeforeCancellation: voyage.status,
+    deletedAt: new Date(),
+    cancellationReason: reason,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Date and time on the wall clock of a time zone at the given instant, read from the parts Intl formats it into
+ * @param timeZone - IANA time zone, e.g. Europe/Oslo.
+ * @param date
+ * @returns
+ */
+function getWallClock(timeZone: string, date: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC in minutes at the given instant, e.g. 60 for Europe/Copenhagen in winter
+ * @param timeZone - IANA time zone, e.g. Europe/Oslo.
+ * @param date
+ * @returns
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date) {
+  const wallClock = getWallClock(timeZone, date);
+  const wallClockAsUtc = Date.UTC(
+    wallClock.year,
+    wallClock.month - 1,
+    wallClock.day,
+    wallClock.hour,
+    wallClock.minute,
+    wallClock.second,
+  );
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallClockAsUtc - instant) / 60_000);
+}
+
+/**
+ * Converts a date and time on the wall clock of a time zone to the instant it stands for
+ * @param dateTime - Local date and time as "yyyy-MM-ddTHH:mm".
+ * @param timeZone - IANA time zone, e.g. Europe/Oslo.
+ * @returns
+ */
+export function zonedTimeToUtc(dateTime: string, timeZone: string) {
+  const [datePart = "", timePart = "00:00"] = dateTime.split("T");
+  const [year = 0, month = 1, day = 1] = datePart.split("-").map(Number);
+  const [hours = 0, minutes = 0] = timePart.split(":").map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // The offset is looked up twice, as the first guess can fall on the other side of a daylight saving change
+  const offset = getTimeZoneOffset(timeZone, new Date(wallClockAsUtc));
+  const guess = wallClockAsUtc - offset * 60_000;
+  const correctedOffset = getTimeZoneOffset(timeZone, new Date(guess));
+  return new Date(wallClockAsUtc - correctedOffset * 60_000);
+}
+
+/**
+ * Formats an instant as the date and time on the wall clock of a time zone. The text is built from the wall clock
+ * itself rather than a shifted local date, so times in a daylight saving gap of the runtime's own time zone stay as
+ * they are. Supports the tokens yyyy, MM, dd, HH, mm and ss, and text in single quotes.
+ * @param date
+ * @param timeZone - IANA time zone, e.g. Europe/Oslo.
+ * @param pattern - date-fns style format pattern, e.g. dd/MM/yyyy HH:mm.
+ * @returns
+ */
+export function formatInTimeZone(
+  date: Date,
+  timeZone: string,
+  pattern = "yyyy-MM-dd HH:mm",
+) {
+  const wallClock = getWallClock(timeZone, date);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  const tokens: Record<string, string> = {
+    yyyy: pad(wallClock.year, 4),
+    MM: pad(wallClock.month),
+    dd: pad(wallClock.day),
+    HH: pad(wallClock.hour),
+    mm: pad(wallClock.minute),
+    ss: pad(wallClock.second),
+  };
+  return pattern.replace(
+    /'([^']*)'|yyyy|MM|dd|HH|mm|ss/g,
+    (token, quoted?: string) => quoted ?? tokens[token] ?? token,
+  );
+}
+
+/**
+ * Short name of a time zone at the given instant, e.g. CET or CEST for Europe/Copenhagen
+ * @param timeZone - IANA time zone, or undefined for the time zone of the runtime.
+ * @param date
+ * @returns
+ */
+export function getTimeZoneName(timeZone: string | undefined, date: Date) {
+  return (
+    new Intl.DateTimeFormat("en-GB", { timeZone, timeZoneName: "short" })
+      .formatToParts(date)
+      .find((part) => part.type === "timeZoneName")?.value ?? ""
+  );
+}
@@ -1,9 +1,66 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { differenceInMinutes } from "date-fns";
+import type { FieldErrors, ValidationErrorResponse } from "~/server/validation";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+/**
+ * Error thrown by fetchData, keeping the HTTP status so callers can tell e.g. a 404 apart from other failures
+ */
+export class FetchError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "FetchError";
+  }
+}
+
+/**
+ * Error for a 400 response of an API route that validates its input, with the error messages per field
+ */
+export class ValidationError extends FetchError {
+  constructor(
+    message: string,
+    public readonly fieldErrors: FieldErrors,
+    public readonly formErrors: string[],
+  ) {
+    super(message, 400);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Throws a ValidationError when the response is a 400 with errors per field, and a FetchError for any other failed response
+ * @param response
+ * @param message - Message of the FetchError, followed by the error returned by the API route if there is one
+ */
+export async function assertResponseOk(response: Response, message: string) {
+  if (response.ok) return;
+
+  const body = (await response
+    .json()
+    .catch(() => null)) as Partial<ValidationErrorResponse> | null;
+
+  if (response.status === 400 && body?.fieldErrors) {
+    throw new ValidationError(
+      body.error ?? message,
+      body.fieldErrors,
+      body.formErrors ?? [],
+    );
+  }
+
+  throw new FetchError(
+    body?.error
+      ? `${message}: ${body.error}`
+      : `${message}: ${response.status} ${response.statusText}`,
+    response.status,
+  );
+}
+
 /**
  * Relative path /api/${path}
  * @param path
@@ -13,8 +70,103 @@ export async function fetchData(path: string) {
   const response = await fetch(`/api/${path}`);
 
   if (!response.ok) {
-    throw new Error("Network response was not ok");
+    throw new FetchError("Network response was not ok", response.status);
   }
 
   return response.json();
 }
+
+/**
+ * Sums the lane metres taken up by the given units
+ * @param units
+ * @returns
+ */
+export function getLaneMetresUsed(units: { defaultLength: number }[]) {
+  return units.reduce((total, unit) => total + unit.defaultLength, 0);
+}
+
+/**
+ * Sums the lane metres taken up by the given bookings, using the default length of the unit type when a booking has no length of its own
+ * @param bookings
+ * @returns
+ */
+export function getLaneMetresBooked(
+  bookings: { length: number | null; unitType: { defaultLength: number } }[],
+) {
+  return bookings.reduce(
+    (total, booking) =>
+      total + (booking.length ?? booking.unitType.defaultLength),
+    0,
+  );
+}
+
+/**
+ * Share of the lane metre capacity of a vessel that is in use, where 1 is a full vessel
+ * @param laneMetresUsed
+ * @param laneMetreCapacity
+ * @returns
+ */
+export function getUtilisation(
+  laneMetresUsed: number,
+  laneMetreCapacity: number,
+) {
+  return laneMetreCapacity > 0 ? laneMetresUsed / laneMetreCapacity : 1;
+}
+
+/**
+ * Formats lane metres rounded to centimetres, e.g. "12.2 m"
+ * @param laneMetres
+ * @returns
+ */
+export function formatLaneMetres(laneMetres: number) {
+  return `${Number(laneMetres.toFixed(2))} m`;
+}
+
+/**
+ * Minutes a voyage is behind its schedule: the actual arrival against the scheduled arrival once it has arrived,
+ * the actual departure against the scheduled departure once it has departed, and otherwise how long its departure
+ * is overdue. Early voyages get a negative delay, and cancelled voyages have no delay.
+ * @param voyage
+ * @param now
+ * @returns
+ */
+export function getDelayMinutes(
+  voyage: {
+    status: string;
+    scheduledDeparture: string | Date;
+    scheduledArrival: string | Date;
+    actualDeparture: string | Date | null;
+    actualArrival: string | Date | null;
+  },
+  now = new Date(),
+) {
+  if (voyage.status === "CANCELLED") return null;
+  if (voyage.actualArrival) {
+    return differenceInMinutes(
+      new Date(voyage.actualArrival),
+      new Date(voyage.scheduledArrival),
+    );
+  }
+  if (voyage.actualDeparture) {
+    return differenceInMinutes(
+      new Date(voyage.actualDeparture),
+      new Date(voyage.scheduledDeparture),
+    );
+  }
+  return Math.max(
+    0,
+    differenceInMinutes(now, new Date(voyage.scheduledDeparture)),
+  );
+}
+
+/**
+ * Formats a delay in minutes, e.g. "+1 h 5 min", or "On time" when the voyage is not late
+ * @param delayMinutes
+ * @returns
+ */
+export function formatDelay(delayMinutes: number) {
+  if (delayMinutes <= 0) return "On time";
+  const hours = Math.floor(delayMinutes / 60);
+  const minutes = delayMinutes % 60;
+  return hours > 0 ? `+${hours} h ${minutes} min` : `+${minutes} min`;
+}